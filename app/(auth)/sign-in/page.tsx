@@ -1,6 +1,18 @@
 // app/(auth)/sign-in/page.tsx
 import AuthForm from "@/components/AuthForm";
+import { isMagicLinkEnabled } from "@/lib/auth/magic-link";
+import { getSafeRedirect } from "@/lib/utils";
 
-export default function SignInPage() {
-  return <AuthForm type="sign-in" />;
+export default function SignInPage({
+  searchParams,
+}: {
+  searchParams: { redirectTo?: string };
+}) {
+  return (
+    <AuthForm
+      type="sign-in"
+      redirectTo={getSafeRedirect(searchParams.redirectTo)}
+      magicLinks={isMagicLinkEnabled()}
+    />
+  );
 }
@@ -0,0 +1,44 @@
+// app/(auth)/step-up/page.tsx
+import { redirect } from "next/navigation";
+import UnifiedVerificationModal from "@/components/UnifiedVerificationModal";
+import { getStepUpRequirement } from "@/lib/actions/auth.actions";
+import { getSafeRedirect } from "@/lib/utils";
+
+/**
+ * Where guardRoute sends a signed-in user whose session doesn't meet the
+ * factor policies of the page they asked for
+ */
+export default async function StepUpPage({
+  searchParams,
+}: {
+  searchParams: { redirectTo?: string };
+}) {
+  const redirectTo = getSafeRedirect(searchParams.redirectTo);
+  const requirement = await getStepUpRequirement({ route: redirectTo.split("?")[0] });
+
+  if (!requirement.success) {
+    redirect(`/sign-in?redirectTo=${encodeURIComponent(redirectTo)}`);
+  }
+  if (requirement.data.satisfied) {
+    redirect(redirectTo);
+  }
+
+  if (requirement.data.methods.length === 0) {
+    return (
+      <p className="subtitle-2 text-center text-gray-400">
+        This page requires a sign-in method you haven&apos;t set up yet. Contact your administrator
+        for access.
+      </p>
+    );
+  }
+
+  return (
+    <UnifiedVerificationModal
+      mode="elevate"
+      accountId={requirement.data.accountId}
+      email={requirement.data.email}
+      methods={requirement.data.methods}
+      redirectTo={redirectTo}
+    />
+  );
+}
@@ -0,0 +1,46 @@
+// app/(auth)/verify/page.tsx
+import type { Metadata } from "next";
+import Link from "next/link";
+import MagicLinkVerification from "@/components/MagicLinkVerification";
+import { readMagicLink } from "@/lib/auth/magic-link";
+
+// The URL carries a sign-in secret; don't hand it to other sites
+export const metadata: Metadata = { referrer: "no-referrer" };
+
+/**
+ * Where emailed sign-in links land. The state is checked here so a dead link says so
+ * straight away; signing in happens in completeMagicLinkSignIn, which can set cookies.
+ */
+export default async function VerifyPage({
+  searchParams,
+}: {
+  searchParams: { userId?: string; secret?: string; state?: string };
+}) {
+  const { userId, secret, state } = searchParams;
+  const link = userId && secret && state ? await readMagicLink({ accountId: userId, state }) : null;
+
+  if (!link) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 px-4 text-center">
+        <p className="subtitle-2 text-gray-400">
+          This sign-in link is invalid or has expired. Request a new one.
+        </p>
+        <Link href="/sign-in" className="text-[#45f3ff] text-sm">
+          Go to Sign In
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <MagicLinkVerification
+      accountId={userId!}
+      secret={secret!}
+      state={state!}
+      sameBrowser={link.sameBrowser}
+      requestedFrom={link.requestedFrom}
+      requestedAt={link.requestedAt}
+      redirectTo={link.redirectTo}
+    />
+  );
+}
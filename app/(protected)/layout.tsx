@@ -1,13 +1,15 @@
 import React from "react";
-import { redirect } from "next/navigation";
 import DocsSidebar from "@/components/DocsSidebar";
 
-export default async function ProtectedLayout({
+/**
+ * Shared chrome of the protected pages. Sign-in and the route's policies are checked by
+ * each page through guardRoute, since this layout stays mounted across navigations.
+ */
+export default function ProtectedLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  
   return (
     <div className="flex min-h-screen bg-[#0b0f14] text-white">
       <DocsSidebar />
@@ -0,0 +1,29 @@
+import SecurityActivityList from "@/components/SecurityActivityList";
+import { getMySecurityActivity } from "@/lib/actions/audit.actions";
+import { guardRoute } from "@/lib/auth/route-guard";
+
+export default async function SecurityActivityPage() {
+  await guardRoute("/settings/activity");
+  const result = await getMySecurityActivity();
+
+  return (
+    <div className="max-w-4xl p-8 space-y-8">
+      <header>
+        <h1 className="text-3xl font-bold mb-2">Security activity</h1>
+        <p className="text-gray-400">
+          Recent sign-ins and security changes on your account. If something
+          here wasn&apos;t you, revoke your sessions and review your sign-in
+          methods.
+        </p>
+      </header>
+
+      {result.success ? (
+        <SecurityActivityList events={result.data} />
+      ) : (
+        <div className="rounded-lg border border-red-400 bg-transparent p-3 text-sm text-error">
+          {result.error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import TotpEnrollment from "@/components/TotpEnrollment";
+import { guardRoute } from "@/lib/auth/route-guard";
+
+export default async function AuthenticatorPage() {
+  const user = await guardRoute("/settings/authenticator");
+  const enabled = !!user.totpEnabled;
+
+  return (
+    <div className="max-w-4xl p-8 space-y-8">
+      <header>
+        <h1 className="text-3xl font-bold mb-2">Authenticator app</h1>
+        <p className="text-gray-400">
+          Use an app such as Google Authenticator, 1Password or Authy to
+          generate sign-in codes, even when you&apos;re offline.
+        </p>
+      </header>
+
+      <TotpEnrollment enabled={enabled} />
+    </div>
+  );
+}
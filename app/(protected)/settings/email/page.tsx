@@ -0,0 +1,19 @@
+import ChangeEmailForm from "@/components/ChangeEmailForm";
+import { guardRoute } from "@/lib/auth/route-guard";
+
+export default async function EmailPage() {
+  const { email } = await guardRoute("/settings/email");
+
+  return (
+    <div className="max-w-4xl p-8 space-y-8">
+      <header>
+        <h1 className="text-3xl font-bold mb-2">Email address</h1>
+        <p className="text-gray-400">
+          Sign-in codes and security notifications are sent to this address.
+        </p>
+      </header>
+
+      <ChangeEmailForm email={email} />
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import PasskeyManager from "@/components/PasskeyManager";
+import { listPasskeys } from "@/lib/actions/passkey.actions";
+import { guardRoute } from "@/lib/auth/route-guard";
+
+export default async function PasskeysPage() {
+  await guardRoute("/settings/passkeys");
+  const passkeys = await listPasskeys();
+
+  return (
+    <div className="max-w-4xl p-8 space-y-8">
+      <header>
+        <h1 className="text-3xl font-bold mb-2">Passkeys</h1>
+        <p className="text-gray-400">
+          Passkeys let you sign in with your fingerprint, face or a security key
+          instead of an email code.
+        </p>
+      </header>
+
+      {passkeys.success ? (
+        <PasskeyManager passkeys={passkeys.data} />
+      ) : (
+        <div className="rounded-lg border border-red-400 bg-transparent p-3 text-sm text-error">
+          {passkeys.error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import RecoveryCodesManager from "@/components/RecoveryCodesManager";
+import { getRecoveryCodeStatus } from "@/lib/actions/recovery.actions";
+import { guardRoute } from "@/lib/auth/route-guard";
+
+export default async function RecoveryCodesPage() {
+  await guardRoute("/settings/recovery-codes");
+  const status = await getRecoveryCodeStatus();
+
+  return (
+    <div className="max-w-4xl p-8 space-y-8">
+      <header>
+        <h1 className="text-3xl font-bold mb-2">Recovery codes</h1>
+        <p className="text-gray-400">
+          Single-use codes that get you back into your account if you lose your
+          passkey device and access to your email.
+        </p>
+      </header>
+
+      {status.success ? (
+        <RecoveryCodesManager remaining={status.data.remaining} />
+      ) : (
+        <div className="rounded-lg border border-red-400 bg-transparent p-3 text-sm text-error">
+          {status.error}
+        </div>
+      )}
+    </div>
+  );
+}
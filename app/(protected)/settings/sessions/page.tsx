@@ -0,0 +1,28 @@
+import SessionsList from "@/components/SessionsList";
+import { getMySessions } from "@/lib/actions/auth.actions";
+import { guardRoute } from "@/lib/auth/route-guard";
+
+export default async function SessionsPage() {
+  await guardRoute("/settings/sessions");
+  const result = await getMySessions();
+
+  return (
+    <div className="max-w-4xl p-8 space-y-8">
+      <header>
+        <h1 className="text-3xl font-bold mb-2">Your sessions</h1>
+        <p className="text-gray-400">
+          These are the devices currently signed in to your account. Revoke any
+          session you don&apos;t recognise.
+        </p>
+      </header>
+
+      {result.success ? (
+        <SessionsList sessions={result.data} />
+      ) : (
+        <div className="rounded-lg border border-red-400 bg-transparent p-3 text-sm text-error">
+          {result.error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+// app/dev/outbox/page.tsx
+import { notFound } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { getConfig } from "@/lib/config";
+import { getOutbox, type Outbox } from "@/lib/mail";
+
+export const dynamic = "force-dynamic";
+
+/** Only with an outbox provider, and never in production */
+const findOutbox = (): Outbox | null => (getConfig().env === "production" ? null : getOutbox());
+
+const clearOutbox = async () => {
+  "use server";
+  await findOutbox()?.clear();
+  revalidatePath("/dev/outbox");
+};
+
+/**
+ * Everything the app has "sent" while MAIL_PROVIDER is file or memory, newest first
+ */
+export default async function OutboxPage() {
+  const outbox = findOutbox();
+  if (!outbox) notFound();
+
+  const messages = await outbox.list();
+
+  return (
+    <main className="min-h-screen bg-[#28292d] px-6 py-10 text-white">
+      <div className="mx-auto flex max-w-3xl flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Mail outbox</h1>
+          <form action={clearOutbox}>
+            <button type="submit" className="text-sm text-[#45f3ff]" disabled={messages.length === 0}>
+              Clear
+            </button>
+          </form>
+        </div>
+
+        {messages.length === 0 && <p className="text-gray-400">No mail sent yet.</p>}
+
+        {messages.map((message) => (
+          <article key={message.id} className="rounded-xl border border-gray-600 p-4">
+            <p className="text-xs text-gray-400">
+              {new Date(message.sentAt).toLocaleString()} · to {message.to} · {message.template}
+            </p>
+            <h2 className="mt-1 font-semibold">{message.subject}</h2>
+            {/* Scripts stay off; links (e.g. sign-in links) open in a new tab */}
+            <iframe
+              title={message.subject}
+              srcDoc={message.html.replace("<head>", '<head><base target="_blank">')}
+              sandbox="allow-popups allow-popups-to-escape-sandbox"
+              className="mt-3 h-64 w-full rounded-lg bg-white"
+            />
+            <details className="mt-2">
+              <summary className="cursor-pointer text-sm text-gray-400">Plain text</summary>
+              <pre className="mt-2 whitespace-pre-wrap text-sm text-gray-300">{message.text}</pre>
+            </details>
+          </article>
+        ))}
+      </div>
+    </main>
+  );
+}
@@ -3,7 +3,7 @@
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { motion } from "framer-motion";
 import Image from "next/image";
 import Link from "next/link";
@@ -20,30 +20,24 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 
-import {
-  createAccount,
-  signInUser,
-  registerUserPasskey,
-  createPasskeySession,
-} from "@/lib/actions/auth.actions";
+import { createAccount, signInUser } from "@/lib/actions/auth.actions";
+import { sendMagicLink } from "@/lib/actions/magic-link.actions";
 import UnifiedVerificationModal from "@/components/UnifiedVerificationModal";
+import RecoveryCodesDialog from "@/components/RecoveryCodesDialog";
 
 import {
-  startRegistration,
-  startAuthentication,
-  RegistrationResponseJSON,
-  AuthenticationResponseJSON,
+  browserSupportsWebAuthnAutofill,
+  WebAuthnAbortService,
+  WebAuthnError,
 } from "@simplewebauthn/browser";
 
 import {
-  getWebAuthnRegistrationOptions,
-  verifyWebAuthnRegistration,
-} from "@/app/(auth)/register/actions";
-
-import {
-  getWebAuthnLoginOptions,
-  verifyWebAuthnLogin,
-} from "@/app/(auth)/login/actions";
+  loginWithPasskey,
+  loginWithDiscoverablePasskey,
+  registerPasskey,
+  StepUpRequiredError,
+} from "@/lib/utils/passkeys";
+import type { StepUpChallenge } from "@/lib/auth/risk-assessment";
 
 import { toast } from "sonner";
 
@@ -63,19 +57,9 @@ interface CreateAccountData {
 interface SignInUserData {
   accountId: string | null;
   hasPasskey: boolean;
+  hasTotp: boolean;
+  hasRecoveryCodes: boolean;
 }
-interface PasskeyVerifyData {
-  verified: boolean;
-}
-interface RegisterPasskeyData {
-  success: boolean;
-}
-interface CreatePasskeySessionData {
-  accountId: string;
-}
-
-/** WebAuthn options shape is opaque/serializable from server */
-type WebAuthnOptions = Record<string, any>;
 
 /* ----------------------
    Zod schema factory
@@ -89,113 +73,41 @@ const authFormSchema = (formType: FormType) =>
         : z.string().optional(),
   });
 
-/* ----------------------
-   WebAuthn client helpers (use unified server shape)
-   ---------------------- */
-async function registerPasskeyOnClient(
-  accountId: string,
-  email: string
-): Promise<boolean> {
-  // Get registration options (server returns ServerResult<Record<string, any>>)
-  const optsRes = (await getWebAuthnRegistrationOptions({
-    accountId,
-  })) as ServerResult<Record<string, any>>;
-
-  if (!optsRes.success) {
-    throw new Error(optsRes.error || "Failed to get registration options");
-  }
-  const options = optsRes.data as WebAuthnOptions;
-
-  // Browser API: start registration
-  const attResp = (await startRegistration(
-    options as any
-  )) as RegistrationResponseJSON;
-
-  // Verify on server (returns ServerResult<{ verified: boolean }>)
-  const verifyRes = (await verifyWebAuthnRegistration({
-    accountId,
-    credential: attResp,
-  })) as ServerResult<PasskeyVerifyData>;
-
-  if (!verifyRes.success) {
-    throw new Error(verifyRes.error || "Registration verification failed");
-  }
-  if (!verifyRes.data.verified) {
-    throw new Error("WebAuthn registration not verified");
-  }
-
-  // Mark passkey on server (registerUserPasskey returns ServerResult<{ success: boolean }>)
-  const regRes = (await registerUserPasskey({
-    email,
-    accountId,
-  })) as ServerResult<RegisterPasskeyData>;
-
-  if (!regRes.success) {
-    throw new Error(regRes.error || "Failed to register passkey server-side");
-  }
-
-  if (!regRes.data.success) {
-    throw new Error("Server failed to set passkey flag");
-  }
-
-  return true;
-}
-
-async function loginWithPasskey(accountId: string): Promise<boolean> {
-  // Get login options from server
-  const optsRes = (await getWebAuthnLoginOptions({
-    accountId,
-  })) as ServerResult<Record<string, any>>;
-  if (!optsRes.success) {
-    throw new Error(optsRes.error || "Failed to get login options");
-  }
-  const options = optsRes.data as WebAuthnOptions;
-
-  // Browser API: start authentication
-  const assertion = (await startAuthentication(
-    options as any
-  )) as AuthenticationResponseJSON;
-
-  // Verify on server
-  const verifyRes = (await verifyWebAuthnLogin({
-    accountId,
-    credential: assertion,
-  })) as ServerResult<PasskeyVerifyData>;
-
-  if (!verifyRes.success) {
-    throw new Error(verifyRes.error || "Passkey verification failed on server");
-  }
-  if (!verifyRes.data.verified) {
-    throw new Error("Passkey verification returned false");
-  }
-
-  // Create custom passkey session (server sets app-session cookie)
-  const sessionRes = (await createPasskeySession(
-    accountId
-  )) as ServerResult<CreatePasskeySessionData>;
-  if (!sessionRes.success) {
-    throw new Error(sessionRes.error || "Failed to create passkey session");
-  }
-
-  // sessionRes.data.accountId exists but we don't require it further here
-  return true;
-}
+/** True when a ceremony was cancelled through WebAuthnAbortService */
+const isCeremonyAborted = (err: unknown) =>
+  err instanceof WebAuthnError && err.code === "ERROR_CEREMONY_ABORTED";
 
 /* ----------------------
    Component
    ---------------------- */
 const AuthForm = ({
   type: initialType = "sign-in",
+  redirectTo = "/docs",
+  magicLinks = false,
 }: {
   type?: FormType;
+  /** Where to send the user after a successful sign-in (already sanitized) */
+  redirectTo?: string;
+  /** Offer an emailed sign-in link (AUTH_MAGIC_LINKS) */
+  magicLinks?: boolean;
 }): JSX.Element => {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [accountId, setAccountId] = useState<string | null>(null);
   const [hasPasskey, setHasPasskey] = useState<boolean>(false);
+  const [hasTotp, setHasTotp] = useState<boolean>(false);
+  const [hasRecoveryCodes, setHasRecoveryCodes] = useState<boolean>(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [stepUp, setStepUp] = useState<StepUpChallenge | null>(null);
   const [panel, setPanel] = useState<FormType>(initialType);
   const [signInMethod, setSignInMethod] = useState<SignInMethod>("otp");
+  // Whether the sign-in already emailed a code to the address the modal opens for
+  const [otpSent, setOtpSent] = useState(true);
 
   const router = useRouter();
+  // Whether a conditional-mediation (passkey autofill) ceremony is pending
+  const conditionalLoginActive = useRef<boolean>(false);
+  // Bumped to start autofill again once something else has ended its ceremony
+  const [conditionalLoginRun, setConditionalLoginRun] = useState(0);
 
   const formSchema = authFormSchema(panel);
   type FormValues = z.infer<typeof formSchema>;
@@ -216,7 +128,116 @@ const AuthForm = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [panel]);
 
+  /**
+   * A passkey verified but the server wants a second factor: hand over to the modal.
+   * Returns false for any other error.
+   */
+  const startStepUp = (err: unknown) => {
+    if (!(err instanceof StepUpRequiredError)) return false;
+    // createPasskeySession already emailed the code when it asked for a step-up
+    setOtpSent(true);
+    setAccountId(err.challenge.accountId);
+    setStepUp(err.challenge);
+    return true;
+  };
+
+  const cancelConditionalLogin = () => {
+    if (!conditionalLoginActive.current) return;
+    conditionalLoginActive.current = false;
+    WebAuthnAbortService.cancelCeremony();
+  };
+
+  /**
+   * "Use OTP" and modal passkey ceremonies end the autofill one; offer it again when the
+   * passkey method is picked or a passkey attempt didn't sign in
+   */
+  const restartConditionalLogin = () => {
+    if (!conditionalLoginActive.current) setConditionalLoginRun((run) => run + 1);
+  };
+
+  useEffect(() => {
+    // Offer passkeys in the email field's autofill while the sign-in panel is shown
+    if (panel !== "sign-in") return;
+    let cancelled = false;
+
+    const startConditionalLogin = async () => {
+      if (!(await browserSupportsWebAuthnAutofill()) || cancelled) return;
+
+      conditionalLoginActive.current = true;
+      try {
+        await loginWithDiscoverablePasskey({ useBrowserAutofill: true });
+        toast.success("Signed in", {
+          description: "Signed in with passkey successfully ✅",
+        });
+        router.push(redirectTo);
+      } catch (err) {
+        if (cancelled || isCeremonyAborted(err) || startStepUp(err)) return;
+        console.warn("Passkey autofill sign-in failed:", err);
+        toast.error("Passkey sign-in failed", {
+          description:
+            "We couldn't sign you in with that passkey. Try again or use your email instead.",
+        });
+      } finally {
+        // A cancelled run was already cleared, and a newer one may be pending by now
+        if (!cancelled) conditionalLoginActive.current = false;
+      }
+    };
+
+    startConditionalLogin();
+
+    return () => {
+      cancelled = true;
+      cancelConditionalLogin();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [panel, conditionalLoginRun]);
+
+  const onDiscoverablePasskeySignIn = async () => {
+    setIsLoading(true);
+    try {
+      await loginWithDiscoverablePasskey();
+      toast.success("Signed in", {
+        description: "Signed in with passkey successfully ✅",
+      });
+      router.push(redirectTo);
+    } catch (err) {
+      if (startStepUp(err)) return;
+      console.warn("Passkey sign-in failed:", err);
+      toast.error("Passkey sign-in failed", {
+        description:
+          "We couldn't sign you in with a passkey. Try again or use your email instead.",
+      });
+      restartConditionalLogin();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onSendMagicLink = async () => {
+    if (!(await form.trigger("email"))) return;
+    cancelConditionalLogin();
+    setIsLoading(true);
+    try {
+      const res = await sendMagicLink({ email: form.getValues("email"), redirectTo });
+      if (!res.success) {
+        toast.error(res.error || "Failed to send sign-in link");
+        return;
+      }
+      toast("Sign-in link sent", {
+        description: "Open the link in your email to sign in. It works once and expires in 15 minutes.",
+      });
+    } catch (err) {
+      console.error("Failed to send sign-in link:", err);
+      toast.error("Error", {
+        description: "Failed to send a sign-in link. Please try again.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const onSubmit = async (values: FormValues) => {
+    cancelConditionalLogin();
     setIsLoading(true);
 
     try {
@@ -224,6 +245,7 @@ const AuthForm = ({
       if (panel === "sign-in") {
         const res = (await signInUser({
           email: values.email,
+          sendCode: signInMethod === "otp",
         })) as ServerResult<SignInUserData>;
 
         if (!res.success) {
@@ -232,40 +254,46 @@ const AuthForm = ({
         }
 
         const user = res.data;
-        // If no accountId, user not found (OTP still may be sent depending on server logic)
+        // No accountId means user not found (only when uniform responses are off)
         if (!user.accountId) {
           toast.error("Sign-in failed", { description: "User not found" });
           return;
         }
 
-        setAccountId(user.accountId);
         setHasPasskey(Boolean(user.hasPasskey));
+        setHasTotp(Boolean(user.hasTotp));
+        setHasRecoveryCodes(Boolean(user.hasRecoveryCodes));
 
         if (signInMethod === "passkey") {
-          if (!user.hasPasskey) {
-            toast.error("No passkey registered", {
-              description:
-                "You don't have a passkey for this account yet. Please sign in with OTP or register a passkey during sign-up.",
-            });
-            return;
-          }
-
           try {
-            await loginWithPasskey(user.accountId);
+            // Without a known passkey for this email (always the case when the server hides
+            // enrollment), let the browser offer any discoverable passkey instead
+            if (user.hasPasskey) {
+              await loginWithPasskey(user.accountId);
+            } else {
+              await loginWithDiscoverablePasskey();
+            }
             toast.success("Signed in", {
               description: "Signed in with passkey successfully ✅",
             });
-            router.push("/docs");
+            router.push(redirectTo);
             return;
           } catch (err) {
+            if (startStepUp(err)) return;
             console.warn("Passkey sign-in failed:", err);
             toast.error("Passkey sign-in failed", {
               description:
-                "We couldn't sign you in with your passkey. Try again or use OTP instead.",
+                "We couldn't sign you in with a passkey. Try again or use OTP instead.",
             });
+            restartConditionalLogin();
+            // No code was sent for the passkey; the modal sends one on the email code method
+            setOtpSent(false);
+            setAccountId(user.accountId);
             return;
           }
         } else {
+          setOtpSent(true);
+          setAccountId(user.accountId);
           // OTP method: server already sent magic/OTP token; UnifiedVerificationModal will complete verification
           toast("OTP sent", {
             description: "Check your email to complete sign-in.",
@@ -285,25 +313,11 @@ const AuthForm = ({
           return;
         }
 
+        // The modal opens in sign-up mode; enrollment waits for the emailed code
         setAccountId(createRes.data.accountId);
-
-        // Optionally register passkey right after account creation
-        try {
-          await registerPasskeyOnClient(createRes.data.accountId, values.email);
-          setHasPasskey(true);
-          toast.success("Passkey registered", {
-            description:
-              "Your biometrics were registered successfully. Please sign in.",
-          });
-        } catch (err) {
-          console.error("Passkey registration failed:", err);
-          toast.error("Biometric enrollment failed", {
-            description:
-              "Account created, but passkey enrollment failed. You can try again later or use OTP.",
-          });
-        }
-
-        router.push("/sign-in");
+        toast("OTP sent", {
+          description: "Enter the code from your email to verify your address.",
+        });
       }
     } catch (err) {
       console.error(err);
@@ -315,6 +329,37 @@ const AuthForm = ({
     }
   };
 
+  /**
+   * The new account's email checked out: enroll a passkey with the enrollment ticket
+   */
+  const onSignUpEmailVerified = async (enrollmentTicket: string) => {
+    setIsLoading(true);
+    try {
+      const codes = await registerPasskey(enrollmentTicket);
+      setHasPasskey(true);
+      toast.success("Passkey registered", {
+        description:
+          "Your biometrics were registered successfully. Please sign in.",
+      });
+
+      // Show recovery codes first; the dialog continues to sign-in when closed
+      if (codes) {
+        setRecoveryCodes(codes);
+        return;
+      }
+    } catch (err) {
+      console.error("Passkey registration failed:", err);
+      toast.error("Biometric enrollment failed", {
+        description:
+          "Account created, but passkey enrollment failed. You can try again later or use OTP.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+
+    router.push("/sign-in");
+  };
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-black via-gray-500 to-gray-900 animate-[gradient_20s_ease_infinite] bg-size-[200%_200%]">
       {/* Neon Frame (Desktop/iPad vs Mobile) */}
@@ -411,6 +456,7 @@ const AuthForm = ({
                       <FormControl>
                         <Input
                           placeholder="Enter your email"
+                          autoComplete="username webauthn"
                           className={`
                            mt-1 bg-transparent text-white max-md:w-[95%]
                           ${form.formState.errors.email ? "border-error" : "border-white"}
@@ -429,7 +475,10 @@ const AuthForm = ({
                     type="button"
                     variant={signInMethod === "otp" ? "default" : "outline"}
                     className="flex-1"
-                    onClick={() => setSignInMethod("otp")}
+                    onClick={() => {
+                      cancelConditionalLogin();
+                      setSignInMethod("otp");
+                    }}
                   >
                     Use OTP
                   </Button>
@@ -437,12 +486,37 @@ const AuthForm = ({
                     type="button"
                     variant={signInMethod === "passkey" ? "default" : "outline"}
                     className="flex-1"
-                    onClick={() => setSignInMethod("passkey")}
+                    onClick={() => {
+                      setSignInMethod("passkey");
+                      restartConditionalLogin();
+                    }}
                   >
                     Use Passkey
                   </Button>
                 </div>
 
+                <Button
+                  type="button"
+                  variant="link"
+                  className="text-[#45f3ff] text-sm h-auto p-0 mt-2"
+                  onClick={onDiscoverablePasskeySignIn}
+                  disabled={isLoading}
+                >
+                  Sign in with a passkey
+                </Button>
+
+                {magicLinks && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="text-[#45f3ff] text-sm h-auto p-0 mt-1"
+                    onClick={onSendMagicLink}
+                    disabled={isLoading}
+                  >
+                    Email me a sign-in link
+                  </Button>
+                )}
+
                 <Link
                   href="/sign-up"
                   className="text-gray-300 text-sm mt-2 max-md:mt-3"
@@ -644,9 +718,27 @@ const AuthForm = ({
           email={form.getValues("email") ?? ""}
           accountId={accountId}
           hasPasskey={hasPasskey}
+          hasTotp={hasTotp}
+          hasRecoveryCodes={hasRecoveryCodes}
+          redirectTo={redirectTo}
+          stepUp={stepUp}
+          mode={panel === "sign-up" ? "sign-up" : "sign-in"}
+          methods={panel === "sign-up" ? ["otp"] : undefined}
+          otpSent={panel === "sign-up" || otpSent}
+          onEmailVerified={onSignUpEmailVerified}
           onSuccess={() => {
             toast.success("Signed in", { description: "Welcome back!" });
-            router.push("/docs");
+            router.push(redirectTo);
+          }}
+        />
+      )}
+
+      {recoveryCodes && (
+        <RecoveryCodesDialog
+          codes={recoveryCodes}
+          onClose={() => {
+            setRecoveryCodes(null);
+            router.push("/sign-in");
           }}
         />
       )}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { changeMyEmail } from "@/lib/actions/auth.actions";
+import { useRecentAuth } from "@/lib/hooks/useRecentAuth";
+
+export default function ChangeEmailForm({ email }: { email: string }) {
+  const router = useRouter();
+  const [draft, setDraft] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const { withRecentAuth, reauthModal } = useRecentAuth();
+
+  const handleSubmit = async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const res = await withRecentAuth(() => changeMyEmail({ email: draft }));
+      if (!res.success) {
+        setError(res.error);
+        return;
+      }
+      toast.success("Email address changed", { description: res.data.email });
+      setDraft("");
+      router.refresh();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/30 p-6 space-y-4">
+      <p className="text-gray-300">
+        Your email address is <span className="font-semibold text-[#45f3ff]">{email}</span>.
+      </p>
+
+      <Input
+        type="email"
+        placeholder="New email address"
+        value={draft}
+        className="bg-transparent border-white text-white"
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setError("");
+        }}
+      />
+
+      {error && (
+        <div className="rounded-lg border border-red-400 bg-transparent p-3 text-sm text-error">
+          {error}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        className="bg-black text-white"
+        disabled={isLoading || !draft.trim()}
+        onClick={handleSubmit}
+      >
+        Change email
+      </Button>
+
+      {reauthModal}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { Folder } from "lucide-react";
+import { Folder, History, KeyRound, LifeBuoy, Mail, MonitorSmartphone, Smartphone } from "lucide-react";
 import Link from "next/link";
 import Image from "next/image";
 import { usePathname } from "next/navigation";
@@ -8,6 +8,14 @@ import { signOutUser } from "@/lib/actions/auth.actions";
 import { DOCS_STRUCTURE } from "@/lib/doc-structure";
 import { Button } from "@/components/ui/button";
 
+const ACCOUNT_LINKS = [
+  { href: "/settings/passkeys", label: "Passkeys", icon: KeyRound },
+  { href: "/settings/authenticator", label: "Authenticator app", icon: Smartphone },
+  { href: "/settings/recovery-codes", label: "Recovery codes", icon: LifeBuoy },
+  { href: "/settings/email", label: "Email address", icon: Mail },
+  { href: "/settings/sessions", label: "Your sessions", icon: MonitorSmartphone },
+  { href: "/settings/activity", label: "Security activity", icon: History },
+];
 
 export default function DocsSidebar() {
   const pathname = usePathname();
@@ -37,6 +45,27 @@ export default function DocsSidebar() {
             </Link>
           );
         })}
+
+        <h2 className="text-sm font-semibold text-[#45f3ff] mt-8 mb-4">
+          Account
+        </h2>
+
+        {ACCOUNT_LINKS.map(({ href, label, icon: Icon }) => {
+          const active = pathname === href;
+
+          return (
+            <Link
+              key={href}
+              href={href}
+              className={`flex items-center gap-4 transition ${
+                active ? "text-white" : "text-gray-300 hover:text-white"
+              }`}
+            >
+              <Icon size={14} />
+              {label}
+            </Link>
+          );
+        })}
       </nav>
 
       {/* USER INFO */}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import UnifiedVerificationModal from "@/components/UnifiedVerificationModal";
+import { completeMagicLinkSignIn } from "@/lib/actions/magic-link.actions";
+import type { StepUpChallenge } from "@/lib/auth/risk-assessment";
+
+interface MagicLinkVerificationProps {
+  accountId: string;
+  secret: string;
+  state: string;
+  /** Opened in the browser that asked for the link: sign in without asking */
+  sameBrowser: boolean;
+  requestedFrom: string;
+  requestedAt: string;
+  redirectTo: string;
+}
+
+/**
+ * Completes an emailed sign-in link. In another browser the user first confirms that
+ * they asked for it, seeing which device did.
+ */
+const MagicLinkVerification = ({
+  accountId,
+  secret,
+  state,
+  sameBrowser,
+  requestedFrom,
+  requestedAt,
+  redirectTo,
+}: MagicLinkVerificationProps) => {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(sameBrowser);
+  const [error, setError] = useState("");
+  const [stepUp, setStepUp] = useState<StepUpChallenge | null>(null);
+  /** The secret works once; don't send it twice when effects re-run */
+  const submitted = useRef(false);
+
+  const signIn = async (confirmed: boolean) => {
+    if (submitted.current) return;
+    submitted.current = true;
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const result = await completeMagicLinkSignIn({ accountId, secret, state, confirmed });
+      if (result.success) {
+        toast.success("Signed in", { description: "Welcome back!" });
+        router.push(result.data.redirectTo);
+        return;
+      }
+      if (result.stepUp) {
+        setStepUp(result.stepUp);
+        return;
+      }
+      setError(result.error);
+    } catch (err) {
+      console.error("Sign-in link failed:", err);
+      setError("Failed to sign in with this link. Request a new one.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (sameBrowser) signIn(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sameBrowser]);
+
+  if (stepUp) {
+    return (
+      <UnifiedVerificationModal
+        accountId={stepUp.accountId}
+        email=""
+        stepUp={stepUp}
+        redirectTo={redirectTo}
+        onSuccess={() => {
+          toast.success("Signed in", { description: "Welcome back!" });
+          router.push(redirectTo);
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center gap-4 px-4 text-center text-white">
+      <h1 className="text-2xl font-bold">Sign in with email link</h1>
+
+      {error ? (
+        <>
+          <p className="subtitle-2 text-red-400">{error}</p>
+          <Link href="/sign-in" className="text-[#45f3ff] text-sm">
+            Go to Sign In
+          </Link>
+        </>
+      ) : sameBrowser ? (
+        <p className="subtitle-2 text-gray-400">Signing you in…</p>
+      ) : (
+        <>
+          <p className="subtitle-2 max-w-md text-gray-400">
+            This link was requested from {requestedFrom} on {new Date(requestedAt).toLocaleString()}, not from
+            this browser. Only continue if that request was yours — otherwise someone else may be trying to
+            get you to sign in.
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={() => signIn(true)} disabled={isLoading}>
+              Yes, sign me in here
+              {isLoading && (
+                <Image
+                  src="/assets/icons/loader.svg"
+                  alt="loader"
+                  width={24}
+                  height={24}
+                  className="ml-2 animate-spin"
+                />
+              )}
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/sign-in">Cancel</Link>
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MagicLinkVerification;
@@ -0,0 +1,211 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import RecoveryCodesDialog from "@/components/RecoveryCodesDialog";
+import { useRecentAuth } from "@/lib/hooks/useRecentAuth";
+import {
+  deletePasskey,
+  renamePasskey,
+  type PasskeySummary,
+} from "@/lib/actions/passkey.actions";
+import { registerPasskey } from "@/lib/utils/passkeys";
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "Never";
+
+export default function PasskeyManager({
+  passkeys,
+}: {
+  passkeys: PasskeySummary[];
+}) {
+  const router = useRouter();
+  const [pending, setPending] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { withRecentAuth, reauthModal } = useRecentAuth();
+
+  const isLastPasskey = passkeys.length <= 1;
+
+  const handleAdd = async () => {
+    setPending("add");
+    try {
+      const codes = await registerPasskey();
+
+      toast.success("Passkey added", {
+        description: "You can now sign in with this device.",
+      });
+      if (codes) {
+        setRecoveryCodes(codes);
+        return;
+      }
+      router.refresh();
+    } catch (err) {
+      console.error("Passkey enrollment failed:", err);
+      toast.error("Couldn't add passkey", {
+        description: err instanceof Error ? err.message : "Please try again.",
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleRename = async (credentialId: string) => {
+    setPending(credentialId);
+    try {
+      const res = await renamePasskey({ credentialId, name: draftName });
+      if (!res.success) {
+        toast.error("Rename failed", { description: res.error });
+        return;
+      }
+      setEditing(null);
+      router.refresh();
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleDelete = async (passkey: PasskeySummary) => {
+    setPending(passkey.credentialId);
+    try {
+      const res = await withRecentAuth(() => deletePasskey(passkey.credentialId));
+      if (!res.success) {
+        toast.error("Couldn't remove passkey", { description: res.error });
+        return;
+      }
+      toast.success("Passkey removed", { description: passkey.name });
+      router.refresh();
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {passkeys.length === 0 && (
+        <p className="text-gray-400">You haven&apos;t added any passkeys yet.</p>
+      )}
+
+      {passkeys.map((passkey) => (
+        <div
+          key={passkey.credentialId}
+          className="flex items-center justify-between gap-4 rounded-xl border border-white/10 bg-black/30 p-6"
+        >
+          <div className="space-y-1 flex-1">
+            {editing === passkey.credentialId ? (
+              <div className="flex items-center gap-2">
+                <Input
+                  value={draftName}
+                  maxLength={64}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  className="bg-transparent border-white text-white"
+                />
+                <Button
+                  type="button"
+                  disabled={pending !== null || !draftName.trim()}
+                  onClick={() => handleRename(passkey.credentialId)}
+                >
+                  Save
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="text-white bg-transparent"
+                  onClick={() => setEditing(null)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <h2 className="text-lg font-semibold">{passkey.name}</h2>
+            )}
+            <p className="text-sm text-gray-300">
+              {passkey.deviceType === "singleDevice"
+                ? "Device-bound passkey"
+                : passkey.backedUp
+                  ? "Synced passkey"
+                  : "Syncable passkey, not backed up yet"}
+              {passkey.authenticatorModel && ` · ${passkey.authenticatorModel}`}
+            </p>
+            {passkey.cloneSuspected && (
+              <p className="text-sm text-red-400">
+                This passkey may have been copied. Remove it and add a new one.
+              </p>
+            )}
+            <p className="text-xs text-gray-500">
+              Added {formatDate(passkey.createdAt)} · Last used{" "}
+              {formatDate(passkey.lastUsedAt)}
+            </p>
+          </div>
+
+          {editing !== passkey.credentialId && (
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="text-white bg-transparent"
+                disabled={pending !== null}
+                onClick={() => {
+                  setEditing(passkey.credentialId);
+                  setDraftName(passkey.name);
+                }}
+              >
+                Rename
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                className="text-white border-red-400 bg-transparent"
+                disabled={pending !== null || isLastPasskey}
+                title={
+                  isLastPasskey
+                    ? "Add another passkey before removing this one"
+                    : undefined
+                }
+                onClick={() => handleDelete(passkey)}
+              >
+                Delete
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        className="bg-black text-white"
+        disabled={pending !== null}
+        onClick={handleAdd}
+      >
+        Add a passkey
+        {pending === "add" && (
+          <Image
+            src="/assets/icons/loader.svg"
+            alt="loader"
+            width={24}
+            height={24}
+            className="ml-2 animate-spin"
+          />
+        )}
+      </Button>
+
+      {recoveryCodes && (
+        <RecoveryCodesDialog
+          codes={recoveryCodes}
+          onClose={() => {
+            setRecoveryCodes(null);
+            router.refresh();
+          }}
+        />
+      )}
+
+      {reauthModal}
+    </div>
+  );
+}
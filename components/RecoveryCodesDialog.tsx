@@ -0,0 +1,86 @@
+"use client";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+
+/**
+ * Shows a freshly generated set of recovery codes. This is the only time the
+ * plaintext codes are available, so the user must acknowledge saving them.
+ */
+const RecoveryCodesDialog = ({
+  codes,
+  onClose,
+}: {
+  codes: string[];
+  onClose: () => void;
+}) => {
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast.success("Recovery codes copied");
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([codes.join("\n") + "\n"], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent className="shad-alert-dialog z-50">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="h2 text-center text-gray-400">
+            Save your recovery codes
+          </AlertDialogTitle>
+          <AlertDialogDescription className="subtitle-2 text-center">
+            If you lose your passkey device and access to your email, each of
+            these codes lets you sign in once. Store them somewhere safe — you
+            won&apos;t see them again.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="grid grid-cols-2 gap-2 rounded-lg border border-white/10 p-4 font-mono text-sm text-[#45f3ff]">
+          {codes.map((code) => (
+            <span key={code} className="text-center">
+              {code}
+            </span>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" className="flex-1" onClick={handleCopy}>
+            Copy
+          </Button>
+          <Button type="button" variant="outline" className="flex-1" onClick={handleDownload}>
+            Download
+          </Button>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogAction
+            type="button"
+            className="shad-submit-btn h-12 w-full"
+            onClick={onClose}
+          >
+            I&apos;ve saved my codes
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default RecoveryCodesDialog;
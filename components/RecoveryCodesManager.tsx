@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import RecoveryCodesDialog from "@/components/RecoveryCodesDialog";
+import { useRecentAuth } from "@/lib/hooks/useRecentAuth";
+import { regenerateRecoveryCodes } from "@/lib/actions/recovery.actions";
+
+export default function RecoveryCodesManager({
+  remaining,
+}: {
+  remaining: number;
+}) {
+  const router = useRouter();
+  const [codes, setCodes] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { withRecentAuth, reauthModal } = useRecentAuth();
+
+  const handleRegenerate = async () => {
+    setIsLoading(true);
+    try {
+      const res = await withRecentAuth(() => regenerateRecoveryCodes());
+      if (!res.success) {
+        toast.error("Couldn't generate recovery codes", { description: res.error });
+        return;
+      }
+      setCodes(res.data.codes);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/30 p-6 space-y-4">
+      <p className="text-gray-300">
+        {remaining > 0
+          ? `You have ${remaining} unused recovery code${remaining === 1 ? "" : "s"}.`
+          : "You don't have any recovery codes."}
+      </p>
+      {remaining > 0 && (
+        <p className="text-sm text-gray-500">
+          Generating a new set invalidates all of your current codes.
+        </p>
+      )}
+
+      <Button
+        type="button"
+        className="bg-black text-white"
+        disabled={isLoading}
+        onClick={handleRegenerate}
+      >
+        {remaining > 0 ? "Regenerate recovery codes" : "Generate recovery codes"}
+      </Button>
+
+      {codes && (
+        <RecoveryCodesDialog
+          codes={codes}
+          onClose={() => {
+            setCodes(null);
+            router.refresh();
+          }}
+        />
+      )}
+
+      {reauthModal}
+    </div>
+  );
+}
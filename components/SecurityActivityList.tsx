@@ -0,0 +1,69 @@
+import type { SecurityActivityItem } from "@/lib/actions/audit.actions";
+
+const EVENT_LABELS: Record<SecurityActivityItem["type"], string> = {
+  "otp.sent": "Email code sent",
+  "otp.verified": "Signed in with email code",
+  "otp.failed": "Wrong email code entered",
+  "magic-link.sent": "Sign-in link sent",
+  "magic-link.confirmed": "Sign-in link opened on another device",
+  "totp.verified": "Signed in with authenticator app",
+  "totp.failed": "Wrong authenticator code entered",
+  "recovery-code.used": "Signed in with a recovery code",
+  "recovery-code.failed": "Wrong recovery code entered",
+  "passkey.registered": "Passkey added",
+  "passkey.used": "Signed in with passkey",
+  "passkey.failed": "Passkey sign-in failed",
+  "passkey.deleted": "Passkey removed",
+  "passkey.clone-suspected": "Passkey flagged as possibly copied",
+  "risk.step-up": "Extra verification requested",
+  "risk.denied": "Unusual sign-in blocked",
+  "session.created": "New session",
+  "session.stepped-up": "Session verified with another factor",
+  "session.revoked": "Session revoked",
+  "email.changed": "Email address changed",
+  "sign-out": "Signed out",
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+export default function SecurityActivityList({
+  events,
+}: {
+  events: SecurityActivityItem[];
+}) {
+  if (events.length === 0) {
+    return <p className="text-gray-400">No security activity yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {events.map((event) => (
+        <li
+          key={event.id}
+          className="flex items-start justify-between gap-4 rounded-xl border border-white/10 bg-black/30 p-4"
+        >
+          <div className="space-y-1">
+            <p
+              className={`font-semibold ${
+                event.outcome === "failure" ? "text-red-400" : "text-white"
+              }`}
+            >
+              {EVENT_LABELS[event.type] ?? event.type}
+              {event.detail && (
+                <span className="ml-2 text-sm font-normal text-gray-400">
+                  {event.detail}
+                </span>
+              )}
+            </p>
+            <p className="text-sm text-gray-300">
+              {event.device} · {event.ipAddress}
+            </p>
+          </div>
+          <time className="shrink-0 text-xs text-gray-500" dateTime={event.createdAt}>
+            {formatDate(event.createdAt)}
+          </time>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  revokeAllMySessions,
+  revokeMySession,
+  type SessionSummary,
+} from "@/lib/actions/auth.actions";
+
+const AUTH_METHOD_LABELS: Record<SessionSummary["authMethod"], string> = {
+  otp: "email code",
+  passkey: "passkey",
+  totp: "authenticator app",
+  recovery: "recovery code",
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+export default function SessionsList({
+  sessions,
+}: {
+  sessions: SessionSummary[];
+}) {
+  const router = useRouter();
+  const [pending, setPending] = useState<string | null>(null);
+
+  const handleRevoke = async (session: SessionSummary) => {
+    setPending(session.sessionId);
+    try {
+      const res = await revokeMySession({ sessionId: session.sessionId });
+      if (!res.success) {
+        toast.error("Failed to revoke session", { description: res.error });
+        return;
+      }
+
+      toast.success("Session revoked", { description: session.device });
+
+      if (res.data.current) {
+        router.push("/sign-in");
+        return;
+      }
+      router.refresh();
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    setPending("all");
+    try {
+      const res = await revokeAllMySessions();
+      if (!res.success) {
+        toast.error("Failed to revoke sessions", { description: res.error });
+        return;
+      }
+
+      toast.success("Signed out everywhere", {
+        description: `${res.data.revoked} session(s) revoked.`,
+      });
+      router.push("/sign-in");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (sessions.length === 0) {
+    return <p className="text-gray-400">No active sessions.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {sessions.map((session) => (
+        <div
+          key={session.sessionId}
+          className="flex items-center justify-between gap-4 rounded-xl border border-white/10 bg-black/30 p-6"
+        >
+          <div className="space-y-1">
+            <h2 className="text-lg font-semibold">
+              {session.device}
+              {session.current && (
+                <span className="ml-2 text-xs text-[#45f3ff]">This device</span>
+              )}
+            </h2>
+            <p className="text-sm text-gray-300">
+              Signed in with {AUTH_METHOD_LABELS[session.authMethod]} ·{" "}
+              {session.ipAddress}
+            </p>
+            <p className="text-xs text-gray-500">
+              Started {formatDate(session.createdAt)} · Last active{" "}
+              {formatDate(session.lastSeenAt)}
+            </p>
+          </div>
+
+          <Button
+            type="button"
+            variant="outline"
+            className="text-white border-red-400 bg-transparent"
+            disabled={pending !== null}
+            onClick={() => handleRevoke(session)}
+          >
+            Revoke
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        className="bg-red-600 text-white"
+        disabled={pending !== null}
+        onClick={handleRevokeAll}
+      >
+        Sign out of all sessions
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import {
+  confirmTotpEnrollment,
+  startTotpEnrollment,
+} from "@/lib/actions/totp.actions";
+
+interface Enrollment {
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+  secret: string;
+}
+
+export default function TotpEnrollment({ enabled }: { enabled: boolean }) {
+  const router = useRouter();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleStart = async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const res = await startTotpEnrollment();
+      if (!res.success) {
+        setError(res.error);
+        return;
+      }
+      setEnrollment(res.data);
+      setCode("");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const res = await confirmTotpEnrollment({ code });
+      if (!res.success) {
+        setError(res.error);
+        setCode("");
+        return;
+      }
+      toast.success("Authenticator app added", {
+        description: "You can now sign in with a code from your app.",
+      });
+      setEnrollment(null);
+      router.refresh();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (enabled && !enrollment) {
+    return (
+      <div className="rounded-xl border border-white/10 bg-black/30 p-6 space-y-4">
+        <p className="text-gray-300">
+          ✅ An authenticator app is set up for your account.
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          className="text-white bg-transparent"
+          disabled={isLoading}
+          onClick={handleStart}
+        >
+          Replace with a new app
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/30 p-6 space-y-6">
+      {error && (
+        <div className="rounded-lg border border-red-400 bg-transparent p-3 text-sm text-error">
+          {error}
+        </div>
+      )}
+
+      {!enrollment ? (
+        <Button
+          type="button"
+          className="bg-black text-white"
+          disabled={isLoading}
+          onClick={handleStart}
+        >
+          Set up authenticator app
+        </Button>
+      ) : (
+        <>
+          <div className="flex flex-col items-center gap-4">
+            <p className="text-gray-300 text-center">
+              Scan this QR code with your authenticator app.
+            </p>
+            {/* data: URL generated server-side — next/image can't optimise it */}
+            <img
+              src={enrollment.qrCodeDataUrl}
+              alt="Authenticator QR code"
+              width={220}
+              height={220}
+              className="rounded-lg bg-white p-2"
+            />
+            <p className="text-xs text-gray-500 text-center">
+              Can&apos;t scan it? Enter this key manually:
+              <br />
+              <span className="font-mono text-[#45f3ff] break-all">
+                {enrollment.secret}
+              </span>
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            <p className="text-sm text-gray-300 text-center">
+              Enter the 6-digit code your app shows to finish setup.
+            </p>
+            <InputOTP
+              maxLength={6}
+              value={code}
+              onChange={(value) => {
+                if (/^\d*$/.test(value)) {
+                  setCode(value);
+                  setError("");
+                }
+              }}
+            >
+              <InputOTPGroup className="shad-otp">
+                {[0, 1, 2, 3, 4, 5].map((i) => (
+                  <InputOTPSlot key={i} index={i} className="shad-otp-slot" />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+
+          <Button
+            type="button"
+            className="shad-submit-btn h-12 w-full"
+            disabled={isLoading || code.length !== 6}
+            onClick={handleConfirm}
+          >
+            Verify and turn on
+            {isLoading && (
+              <Image
+                src="/assets/icons/loader.svg"
+                alt="loader"
+                width={24}
+                height={24}
+                className="ml-2 animate-spin"
+              />
+            )}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
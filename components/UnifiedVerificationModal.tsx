@@ -14,39 +14,294 @@ import {
   InputOTPGroup,
   InputOTPSlot,
 } from "@/components/ui/input-otp";
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import Image from "next/image";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   verifySecret,
   sendEmailOTP,
   createPasskeySession,
+  elevateSession,
+  elevateSessionWithOtp,
+  verifySignUpEmail,
 } from "@/lib/actions/auth.actions";
 import { useRouter } from "next/navigation";
-import { beginPasskeyLogin, finishPasskeyLogin } from "@/lib/appwrite/passkey";
+import { browserSupportsWebAuthn } from "@simplewebauthn/browser";
+import FaceIDScanner from "@/components/FaceIDScanner";
+import FingerprintScanner from "@/components/FingerprintScanner";
+import { detectBiometric } from "@/lib/utils/biometricDetector";
+import { loginWithPasskey, StepUpRequiredError, verifyPasskey } from "@/lib/utils/passkeys";
+import { verifyTotpLogin } from "@/lib/actions/totp.actions";
+import { verifyRecoveryCodeLogin } from "@/lib/actions/recovery.actions";
 import { toast } from "sonner";
+import type { StepUpChallenge } from "@/lib/auth/risk-assessment";
 
-type VerificationMethod = "otp" | "passkey";
+export type VerificationMethod = "otp" | "passkey" | "totp" | "recovery";
+type BiometricKind = Awaited<ReturnType<typeof detectBiometric>>;
+/** Why a verification didn't sign the user in (null when it did) */
+type VerifyFailure = { error: string } | { stepUp: StepUpChallenge };
+
+const METHOD_LABELS: Record<VerificationMethod, string> = {
+  otp: "Email code",
+  passkey: "Passkey",
+  totp: "Authenticator app",
+  recovery: "Recovery code",
+};
 
 interface UnifiedVerificationModalProps {
   accountId: string;
   email: string;
   hasPasskey?: boolean;
+  /** Offer "Authenticator app" when the user has TOTP enrolled */
+  hasTotp?: boolean;
+  /** Offer "Recovery code" when the user has unused recovery codes */
+  hasRecoveryCodes?: boolean;
+  /** Post-verification destination when no onSuccess handler is given */
+  redirectTo?: string;
+  /** Open straight into a step-up: the first factor already verified elsewhere */
+  stepUp?: StepUpChallenge | null;
+  /**
+   * "sign-in" creates a session; "elevate" and "reauth" add the verified factor to the
+   * current one — for a policy step-up, or to confirm a sensitive action (see useRecentAuth).
+   * "sign-up" only confirms a new account's email and hands onEmailVerified an enrollment ticket.
+   */
+  mode?: "sign-in" | "elevate" | "reauth" | "sign-up";
+  /** Only offer these factors, in this order; overrides the has* flags */
+  methods?: VerificationMethod[];
+  /**
+   * Whether the emailed code is already on its way. Otherwise it is sent once the email code
+   * method is shown; elevation always works that way.
+   */
+  otpSent?: boolean;
   onSuccess?: () => void;
+  /** "sign-up" mode: the emailed code checked out; the ticket lets the new account enroll a passkey */
+  onEmailVerified?: (enrollmentTicket: string) => void;
+  /** Called when the user closes the modal without verifying */
+  onCancel?: () => void;
 }
 
 const UnifiedVerificationModal = ({
   accountId,
   email,
   hasPasskey = false,
+  hasTotp = false,
+  hasRecoveryCodes = false,
+  redirectTo = "/docs",
+  stepUp: initialStepUp = null,
+  mode = "sign-in",
+  methods: allowedMethods,
+  otpSent = true,
   onSuccess,
+  onEmailVerified,
+  onCancel,
 }: UnifiedVerificationModalProps) => {
   const router = useRouter();
+  const isElevating = mode === "elevate" || mode === "reauth";
   const [isOpen, setIsOpen] = useState(true);
-  const [method] = useState<VerificationMethod>("otp");
+  // Start on a code-based factor: whether this browser can use a passkey is only known after mount
+  const [method, setMethod] = useState<VerificationMethod>(
+    allowedMethods?.find((m) => m !== "passkey") ?? "otp"
+  );
   const [otp, setOtp] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
+  const [supportsPasskey, setSupportsPasskey] = useState(false);
+  const [biometric, setBiometric] = useState<BiometricKind>("unsupported");
+  /** Set when the server rate-limits us; drives the "try again in N seconds" countdown */
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  /** Set when the risk check asked for a second factor */
+  const [stepUp, setStepUp] = useState<StepUpChallenge | null>(initialStepUp);
+  /** Elevation, and a sign-in that began with a passkey, send the email code on demand */
+  const otpRequested = useRef(false);
+  const sendsOtpOnDemand = isElevating || !otpSent;
+
+  const offersPasskey = allowedMethods ? allowedMethods.includes("passkey") : hasPasskey;
+
+  useEffect(() => {
+    // WebAuthn availability is only known in the browser
+    if (!offersPasskey || !browserSupportsWebAuthn()) return;
+    setSupportsPasskey(true);
+    detectBiometric().then(setBiometric).catch(() => setBiometric("unsupported"));
+  }, [offersPasskey]);
+
+  useEffect(() => {
+    if (!retryAt) return;
+
+    const tick = () => {
+      const left = Math.ceil((retryAt - Date.now()) / 1000);
+      if (left <= 0) {
+        setRetryAt(null);
+        setError("");
+      }
+      setSecondsLeft(Math.max(left, 0));
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const applyRetryAfter = (retryAfterSeconds?: number) => {
+    if (retryAfterSeconds) setRetryAt(Date.now() + retryAfterSeconds * 1000);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) onCancel?.();
+  };
+
+  const switchMethod = (next: VerificationMethod) => {
+    setMethod(next);
+    setOtp("");
+    setRecoveryCode("");
+    setError("");
+  };
+
+  /**
+   * Switch to the factors the server will accept as a second one
+   */
+  const beginStepUp = (challenge: StepUpChallenge) => {
+    setStepUp(challenge);
+    setIsOpen(true);
+    const usable = challenge.methods.filter((m) => m !== "passkey" || supportsPasskey);
+    if (usable[0]) switchMethod(usable[0]);
+    toast("Additional verification required", {
+      description: "This sign-in looks new to us. Please confirm it's you with another method.",
+    });
+  };
+
+  useEffect(() => {
+    if (initialStepUp) beginStepUp(initialStepUp);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialStepUp]);
+
+  /** Every factor this account has enrolled (and this browser can use), in display order */
+  const availableMethods: VerificationMethod[] = stepUp
+    ? stepUp.methods.filter((m) => m !== "passkey" || supportsPasskey)
+    : allowedMethods
+      ? allowedMethods.filter((m) => m !== "passkey" || supportsPasskey)
+      : [
+        "otp",
+        ...(supportsPasskey ? (["passkey"] as const) : []),
+        ...(hasTotp ? (["totp"] as const) : []),
+        ...(hasRecoveryCodes ? (["recovery"] as const) : []),
+      ];
+
+  useEffect(() => {
+    if (!sendsOtpOnDemand || method !== "otp" || otpRequested.current || !email) return;
+    otpRequested.current = true;
+    handleResendOtp();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sendsOtpOnDemand, method, email]);
+
+  /** Where to send the user when the current method fails */
+  const fallbackMethod = availableMethods.find((m) => m !== method);
+
+  const completeSignIn = () => {
+    if (onSuccess) {
+      onSuccess();
+    } else {
+      router.push(redirectTo);
+    }
+  };
+
+  /**
+   * Turn a login ticket into a new session, or into another factor on the current one
+   */
+  const redeemLoginTicket = async (loginTicket: string): Promise<VerifyFailure | null> => {
+    if (isElevating) {
+      const elevated = await elevateSession({ loginTicket });
+      return elevated.success ? null : { error: elevated.error };
+    }
+
+    const sessionRes = await createPasskeySession({ loginTicket, stepUpTicket: stepUp?.ticket });
+    if (sessionRes.success) return null;
+    return sessionRes.stepUp ? { stepUp: sessionRes.stepUp } : { error: sessionRes.error };
+  };
+
+  const successMessage = isElevating ? "Your session has been verified." : "You are now signed in.";
+
+  /**
+   * Handle passkey verification. Throws on failure so the scanner shows its error state.
+   */
+  const handlePasskeyScan = async () => {
+    setError("");
+    try {
+      if (isElevating) {
+        const failure = await redeemLoginTicket(await verifyPasskey(accountId));
+        if (failure && "error" in failure) throw new Error(failure.error);
+      } else {
+        await loginWithPasskey(accountId, stepUp?.ticket);
+      }
+    } catch (err) {
+      if (err instanceof StepUpRequiredError) {
+        beginStepUp(err.challenge);
+        return;
+      }
+      console.warn("Passkey verification failed:", err);
+      const msg = "Passkey verification failed. Try again or use another method.";
+      setError(msg);
+      toast.error("Passkey verification failed", { description: msg });
+      throw err;
+    }
+
+    toast.success("Passkey verified", {
+      description: successMessage,
+    });
+    completeSignIn();
+  };
+
+  /**
+   * Handle authenticator-app verification — the code is exchanged for a login ticket,
+   * then for a custom session, like a passkey login.
+   */
+  const verifyTotpCode = async (): Promise<VerifyFailure | null> => {
+    const result = await verifyTotpLogin({ accountId, code: otp });
+    if (!result.success) {
+      applyRetryAfter(result.retryAfterSeconds);
+      return { error: result.error };
+    }
+    if (!result.data.verified || !result.data.loginTicket) return { error: "Invalid code." };
+
+    return redeemLoginTicket(result.data.loginTicket);
+  };
+
+  /**
+   * Handle recovery-code verification — consumes the code and reports how many are left
+   */
+  const verifyRecoveryCode = async (): Promise<VerifyFailure | null> => {
+    const result = await verifyRecoveryCodeLogin({ accountId, code: recoveryCode });
+    if (!result.success) {
+      applyRetryAfter(result.retryAfterSeconds);
+      return { error: result.error };
+    }
+    if (!result.data.verified || !result.data.loginTicket) return { error: "Invalid recovery code." };
+
+    const failure = await redeemLoginTicket(result.data.loginTicket);
+    if (failure) return failure;
+
+    toast.warning("Recovery code used", {
+      description: `You have ${result.data.remaining} recovery code${
+        result.data.remaining === 1 ? "" : "s"
+      } left. Consider generating a new set in settings.`,
+    });
+    return null;
+  };
+
+  /**
+   * Show why a verification didn't sign in: an error, or a request for another factor
+   */
+  const handleFailure = (failure: VerifyFailure, title: string) => {
+    if ("stepUp" in failure) {
+      beginStepUp(failure.stepUp);
+      return;
+    }
+    setError(failure.error);
+    toast.error(title, { description: failure.error });
+  };
 
   /**
    * Handle OTP verification
@@ -58,19 +313,87 @@ const UnifiedVerificationModal = ({
     setError("");
 
     try {
+      if (method === "recovery") {
+        const recoveryFailure = recoveryCode.trim()
+          ? await verifyRecoveryCode()
+          : { error: "Please enter one of your recovery codes." };
+        if (recoveryFailure) {
+          handleFailure(recoveryFailure, "Recovery code failed");
+          return;
+        }
+
+        completeSignIn();
+        return;
+      }
+
       // ✅ Validate input length
       if (otp.length !== 6) {
-        const msg = "Please enter the 6-digit code sent to your email.";
+        const msg =
+          method === "totp"
+            ? "Please enter the 6-digit code from your authenticator app."
+            : "Please enter the 6-character code sent to your email.";
         setError(msg);
         toast.error("Invalid input", { description: msg });
         return;
       }
 
+      if (method === "totp") {
+        const totpFailure = await verifyTotpCode();
+        if (totpFailure) {
+          handleFailure(totpFailure, "Code verification failed");
+          return;
+        }
+
+        toast.success("Code verified", {
+          description: successMessage,
+        });
+        completeSignIn();
+        return;
+      }
+
+      if (mode === "sign-up") {
+        const verified = await verifySignUpEmail({ accountId, password: otp });
+        if (!verified.success) {
+          applyRetryAfter(verified.retryAfterSeconds);
+          handleFailure({ error: verified.error }, "OTP verification failed");
+          return;
+        }
+
+        toast.success("Email verified");
+        setIsOpen(false);
+        onEmailVerified?.(verified.data.enrollmentTicket);
+        return;
+      }
+
+      if (isElevating) {
+        const elevated = await elevateSessionWithOtp({ password: otp });
+        if (!elevated.success) {
+          applyRetryAfter(elevated.retryAfterSeconds);
+          handleFailure({ error: elevated.error }, "OTP verification failed");
+          return;
+        }
+
+        toast.success("OTP verified", { description: successMessage });
+        completeSignIn();
+        return;
+      }
+
       // ✅ Call server action to verify OTP
-      const result = await verifySecret({ accountId, password: otp });
+      const result = await verifySecret({
+        accountId,
+        password: otp,
+        stepUpTicket: stepUp?.ticket,
+      });
+
+      // ✅ Code was right, but the sign-in needs a second factor
+      if (!result.success && result.stepUp) {
+        beginStepUp(result.stepUp);
+        return;
+      }
 
       // ❌ OTP invalid
       if (!result.success) {
+        applyRetryAfter(result.retryAfterSeconds);
         const msg =
           result.message === "Invalid token passed in the request."
             ? "Invalid OTP. Please enter the correct code sent to your email."
@@ -87,11 +410,7 @@ const UnifiedVerificationModal = ({
       });
 
       // Redirect or call parent success handler
-      if (onSuccess) {
-        onSuccess();
-      } else {
-        router.push("/docs");
-      }
+      completeSignIn();
     } catch (err: any) {
       const msg =
         err?.response?.message ||
@@ -109,7 +428,14 @@ const UnifiedVerificationModal = ({
    */
   const handleResendOtp = async () => {
     try {
-      await sendEmailOTP({ email });
+      const result = await sendEmailOTP({ email });
+      if (!result.success) {
+        applyRetryAfter(result.retryAfterSeconds);
+        setError(result.error);
+        toast.error("Resend failed", { description: result.error });
+        return;
+      }
+
       setOtp(""); // ✅ reset input
       setError("");
 
@@ -124,7 +450,7 @@ const UnifiedVerificationModal = ({
   };
 
   return (
-    <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
+    <AlertDialog open={isOpen} onOpenChange={handleOpenChange}>
       <AlertDialogContent className="shad-alert-dialog z-50">
         <AlertDialogHeader className="relative flex justify-center">
           <div className="flex items-center justify-between w-full">
@@ -136,80 +462,176 @@ const UnifiedVerificationModal = ({
               alt="close"
               width={20}
               height={20}
-              onClick={() => setIsOpen(false)}
+              onClick={() => handleOpenChange(false)}
               className="otp-close-button cursor-pointer"
             />
           </div>
           <AlertDialogDescription className="subtitle-2 text-center">
-            Enter the verification code sent to your email
+            {method === "passkey"
+              ? "Confirm it's you with your passkey"
+              : method === "totp"
+                ? "Enter the code from your authenticator app"
+                : method === "recovery"
+                  ? "Enter one of your saved recovery codes"
+                  : "Enter the verification code sent to your email"}
           </AlertDialogDescription>
         </AlertDialogHeader>
 
+        {stepUp && (
+          <p className="text-sm text-center text-[#45f3ff]">
+            This sign-in looks new to us. Confirm it&apos;s you with a second method.
+          </p>
+        )}
+
+        {isElevating && !stepUp && (
+          <p className="text-sm text-center text-[#45f3ff]">
+            {mode === "reauth"
+              ? "This action needs a recent verification. Confirm it's you to continue."
+              : "This page needs extra verification. Confirm it's you with another method."}
+          </p>
+        )}
+
+        {/* Method tabs — one per enrolled factor */}
+        {availableMethods.length > 1 && (
+          <div
+            role="tablist"
+            className="flex w-full flex-wrap items-center justify-between gap-1"
+          >
+            {availableMethods.map((option) => (
+              <Button
+                key={option}
+                type="button"
+                role="tab"
+                aria-selected={method === option}
+                variant={method === option ? "default" : "outline"}
+                className="flex-1"
+                onClick={() => switchMethod(option)}
+              >
+                {METHOD_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+        )}
+
         {/* ❌ Error message */}
         {error && (
           <div className="rounded-lg border border-red-400 bg-transparent p-3 text-sm text-error">
-            {error}
+            {retryAt
+              ? `Too many attempts. Try again in ${secondsLeft} second${secondsLeft === 1 ? "" : "s"}.`
+              : error}
+            {fallbackMethod && (
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto p-0 pl-1 text-[#45f3ff]"
+                onClick={() => switchMethod(fallbackMethod)}
+              >
+                Use {METHOD_LABELS[fallbackMethod].toLowerCase()} instead
+              </Button>
+            )}
           </div>
         )}
 
-        {/* OTP Section */}
-        <div className="space-y-4">
-          <p className="text-sm text-gray-600 text-center">
-            We&apos;ve sent a 6-digit code to{" "}
-            <span className="font-semibold text-[#45f3ff]">{email}</span>
-          </p>
-
-          <InputOTP
-            maxLength={6}
-            value={otp}
-            onChange={(value) => {
-              // ✅ digits only
-              if (/^\d*$/.test(value)) {
-                setOtp(value);
+        {/* Method Section */}
+        {method === "passkey" ? (
+          <div className="flex justify-center py-2">
+            {biometric === "faceid" ? (
+              <FaceIDScanner onScan={handlePasskeyScan} />
+            ) : (
+              <FingerprintScanner onScan={handlePasskeyScan} />
+            )}
+          </div>
+        ) : method === "recovery" ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 text-center">
+              Each recovery code can only be used once
+            </p>
+            <Input
+              placeholder="XXXX-XXXX-XXXX-XXXX"
+              value={recoveryCode}
+              autoComplete="one-time-code"
+              className="bg-transparent border-white text-white font-mono text-center"
+              onChange={(e) => {
+                setRecoveryCode(e.target.value);
                 setError("");
-              }
-            }}
-          >
-            <InputOTPGroup className="shad-otp">
-              {[0, 1, 2, 3, 4, 5].map((i) => (
-                <InputOTPSlot key={i} index={i} className="shad-otp-slot" />
-              ))}
-            </InputOTPGroup>
-          </InputOTP>
-        </div>
+              }}
+            />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {method === "totp" ? (
+              <p className="text-sm text-gray-600 text-center">
+                Open your authenticator app and enter the current 6-digit code
+              </p>
+            ) : (
+              <p className="text-sm text-gray-600 text-center">
+                We&apos;ve sent a 6-character code to{" "}
+                <span className="font-semibold text-[#45f3ff]">{email || "your email"}</span>
+              </p>
+            )}
+
+            <InputOTP
+              maxLength={6}
+              value={otp}
+              onChange={(value) => {
+                // Authenticator codes are digits. Emailed codes are lowercase hex from Appwrite's
+                // users.createToken, or digits from the memory account store; both pass as hex
+                const code = method === "totp" ? value : value.toLowerCase();
+                if ((method === "totp" ? /^\d*$/ : /^[0-9a-f]*$/).test(code)) {
+                  setOtp(code);
+                  setError("");
+                }
+              }}
+            >
+              <InputOTPGroup className="shad-otp">
+                {[0, 1, 2, 3, 4, 5].map((i) => (
+                  <InputOTPSlot key={i} index={i} className="shad-otp-slot" />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        )}
 
         <AlertDialogFooter>
           <div className="flex w-full flex-col gap-4">
-            <AlertDialogAction
-              onClick={handleOtpSubmit}
-              className="shad-submit-btn h-12"
-              type="button"
-              disabled={isLoading || otp.length !== 6}
-            >
-              Verify OTP
-              {isLoading && (
-                <Image
-                  src="/assets/icons/loader.svg"
-                  alt="loader"
-                  width={24}
-                  height={24}
-                  className="ml-2 animate-spin"
-                />
-              )}
-            </AlertDialogAction>
-
-            <div className="subtitle-2 text-center">
-              Didn&apos;t get a code?
-              <Button
+            {method !== "passkey" && (
+              <AlertDialogAction
+                onClick={handleOtpSubmit}
+                className="shad-submit-btn h-12"
                 type="button"
-                variant="link"
-                className="pl-1 text-[#45f3ff]"
-                onClick={handleResendOtp}
-                disabled={isLoading}
+                disabled={
+                  isLoading ||
+                  retryAt !== null ||
+                  (method === "recovery" ? !recoveryCode.trim() : otp.length !== 6)
+                }
               >
-                Click to resend
-              </Button>
-            </div>
+                {method === "otp" ? "Verify OTP" : "Verify code"}
+                {isLoading && (
+                  <Image
+                    src="/assets/icons/loader.svg"
+                    alt="loader"
+                    width={24}
+                    height={24}
+                    className="ml-2 animate-spin"
+                  />
+                )}
+              </AlertDialogAction>
+            )}
+
+            {method === "otp" && email && (
+              <div className="subtitle-2 text-center">
+                Didn&apos;t get a code?
+                <Button
+                  type="button"
+                  variant="link"
+                  className="pl-1 text-[#45f3ff]"
+                  onClick={handleResendOtp}
+                  disabled={isLoading || retryAt !== null}
+                >
+                  Click to resend
+                </Button>
+              </div>
+            )}
           </div>
         </AlertDialogFooter>
       </AlertDialogContent>
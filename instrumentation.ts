@@ -0,0 +1,14 @@
+/**
+ * Runs once when a server instance starts: validate the configuration so a bad deploy
+ * fails here, with every problem listed, rather than on the first request that needs it.
+ * Then start the background jobs.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { getConfig } = await import("@/lib/config");
+  getConfig();
+
+  const { scheduleChallengePurge } = await import("@/lib/auth/webauthn");
+  scheduleChallengePurge();
+}
@@ -0,0 +1,48 @@
+"use server";
+
+import { getCurrentUser, type ServerResult } from "@/lib/actions/auth.actions";
+import { listAuditEvents, type AuditEvent } from "@/lib/auth/audit-log";
+import { describeDevice } from "@/lib/auth/request-context";
+import { enforceActionPolicy } from "@/lib/auth/session-policy";
+
+/** Audit event as shown on the "Security activity" page */
+export interface SecurityActivityItem {
+  id: string;
+  type: AuditEvent["type"];
+  outcome: AuditEvent["outcome"];
+  device: string;
+  ipAddress: string;
+  detail: string | null;
+  createdAt: string;
+}
+
+/**
+ * The current user's recent security events, newest first
+ */
+export const getMySecurityActivity = async (): Promise<ServerResult<SecurityActivityItem[]>> => {
+  try {
+    const current = await getCurrentUser();
+    if (!current.success || !current.data) return { success: false, error: "Not signed in" };
+
+    const policyError = await enforceActionPolicy("/settings/activity");
+    if (policyError) return { success: false, error: policyError };
+
+    const events = await listAuditEvents(current.data.accountId);
+
+    return {
+      success: true,
+      data: events.map((event) => ({
+        id: event.$id,
+        type: event.type,
+        outcome: event.outcome,
+        device: describeDevice(event.userAgent),
+        ipAddress: event.ipAddress,
+        detail: event.detail,
+        createdAt: event.$createdAt,
+      })),
+    };
+  } catch (error) {
+    console.error("Failed to list security activity", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to list security activity" };
+  }
+};
@@ -0,0 +1,53 @@
+// lib/actions/auth.actions.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAccount, sendEmailOTP } from "@/lib/actions/auth.actions";
+import { getOutbox } from "@/lib/mail";
+import { requestHeaders } from "@/tests/e2e/support/next-server";
+
+const mode = vi.hoisted(() => ({ uniform: "false" }));
+
+vi.mock("@/lib/config", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/config")>();
+  return {
+    ...actual,
+    getConfig: () =>
+      actual.loadConfig({ ...process.env, AUTH_UNIFORM_RESPONSES: mode.uniform, AUTH_MIN_RESPONSE_MS: "0" }),
+  };
+});
+
+// Rate limits outlive a test, so every test uses its own addresses from its own IP
+let KNOWN: string;
+let UNKNOWN: string;
+let testCount = 0;
+
+const templatesSentTo = async (email: string) =>
+  (await getOutbox()!.list()).filter((mail) => mail.to === email).map((mail) => mail.template);
+
+describe("sendEmailOTP", () => {
+  beforeEach(async () => {
+    mode.uniform = "false";
+    KNOWN = `ada+${++testCount}@example.com`;
+    UNKNOWN = `nobody+${testCount}@example.com`;
+    requestHeaders.set("x-forwarded-for", `198.51.100.${testCount}`);
+    await createAccount({ fullName: "Ada Lovelace", email: KNOWN });
+    await getOutbox()!.clear();
+  });
+
+  it("mails a registered address a code without returning its accountId", async () => {
+    expect(await sendEmailOTP({ email: KNOWN })).toEqual({ success: true, data: null });
+    expect(await templatesSentTo(KNOWN)).toEqual(["otp-code"]);
+  });
+
+  it("mails nothing to an unknown address", async () => {
+    expect(await sendEmailOTP({ email: UNKNOWN })).toMatchObject({ success: false });
+    expect(await templatesSentTo(UNKNOWN)).toEqual([]);
+  });
+
+  it("answers an unknown address like a registered one in uniform response mode", async () => {
+    mode.uniform = "true";
+
+    expect(await sendEmailOTP({ email: UNKNOWN })).toEqual(await sendEmailOTP({ email: KNOWN }));
+    expect(await templatesSentTo(UNKNOWN)).toEqual(["no-account"]);
+    expect(await templatesSentTo(KNOWN)).toEqual(["otp-code"]);
+  });
+});
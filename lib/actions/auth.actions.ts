@@ -1,63 +1,135 @@
 "use server";
 
-import { createAdminClient, createSessionClient, getCustomPasskeySessionAccountId } from "@/lib/appwrite/index";
-import { appwriteConfig } from "@/lib/appwrite/config";
-import { Query, ID } from "node-appwrite";
+import { AppwriteException } from "node-appwrite";
 import { parseStringify } from "@/lib/utils";
 import { cookies } from "next/headers";
 import { avatarPlaceholderUrl } from "../../constants";
 import { redirect } from "next/navigation";
+import {
+  issueEnrollmentTicket,
+  issueSessionToken,
+  verifyLoginTicket,
+  SESSION_TTL_SECONDS,
+  type AuthMethod,
+} from "@/lib/auth/session-token";
+import { resolveCurrentSession } from "@/lib/auth/current-session";
+import { checkSessionPolicy, enforceActionPolicy, stepUpMethodsFor } from "@/lib/auth/session-policy";
+import {
+  addSessionFactors,
+  createSessionRecord,
+  listSessionRecords,
+  revokeAllSessionRecords,
+  revokeSessionRecord,
+  type SessionRecord,
+} from "@/lib/auth/session-store";
+import {
+  clearVerificationFailures,
+  limitOtpSend,
+  limitSignIn,
+  limitVerification,
+  rateLimitMessage,
+  recordVerificationFailure,
+} from "@/lib/auth/rate-limit";
+import {
+  decoyAccountId,
+  isUniformResponseMode,
+  padResponseTime,
+  sendNoAccountEmail,
+} from "@/lib/auth/enumeration-guard";
+import { logAuditEvent } from "@/lib/auth/audit-log";
+import { gateSignIn, type StepUpChallenge } from "@/lib/auth/risk-assessment";
+import { requireRecentAuth, SENSITIVE_ACTION_MAX_AGE_SECONDS, type ReauthChallenge } from "@/lib/auth/recent-auth";
+import { sendMail } from "@/lib/mail";
+import { getRepositories } from "@/lib/repositories";
 
 /** Unified server result */
 export type ServerResult<T = any> =
   | { success: true; data: T }
-  | { success: false; error: string };
-
-
-
-const getUserByEmail = async (email: string) => {
-  const { databases } = await createAdminClient();
+  | {
+      success: false;
+      error: string;
+      retryAfterSeconds?: number;
+      stepUp?: StepUpChallenge;
+      /** Set by requireRecentAuth: verify again, then retry the action */
+      reauth?: ReauthChallenge;
+    };
 
-  const result = await databases.listDocuments(
-    appwriteConfig.databaseId,
-    appwriteConfig.usersCollectionId,
-    [Query.equal("email", [email])]
-  );
+const BLOCKED_SIGN_IN_MESSAGE =
+  "This sign-in looked unusual and was blocked for your security. Try again from a device or network you've used before.";
 
-  return result.total > 0 ? result.documents[0] : null;
+const handleError = (error: unknown, message: string) => {
+  console.error(message, error);
+  throw error instanceof Error ? error : new Error(message);
 };
 
-const getUserByAccountId = async (accountId: string) => {
-  const { databases } = await createAdminClient();
-
-  const result = await databases.listDocuments(
-    appwriteConfig.databaseId,
-    appwriteConfig.usersCollectionId,
-    [
-      Query.or([
-        Query.equal("accountId", [accountId]),
-        Query.equal("userId", [accountId]),
-      ]),
-    ]
-  );
-
-  return result.total > 0 ? result.documents[0] : null;
+/**
+ * Mail a code to the address, creating its Appwrite account if there is none yet. Server-side
+ * only: the accountId it returns must not reach a caller who hasn't proven the address.
+ */
+const sendEmailCode = async (email: string): Promise<ServerResult<{ accountId: string }>> => {
+  try {
+    const limit = await limitOtpSend(email);
+    if (!limit.allowed) {
+      await logAuditEvent({ type: "otp.sent", accountId: null, method: "otp", outcome: "failure", detail: "Rate limited" });
+      return { success: false, error: rateLimitMessage(limit.retryAfterSeconds), retryAfterSeconds: limit.retryAfterSeconds };
+    }
+
+    const { accountId, secret, expiresAt } = await getRepositories().accounts.createEmailToken(email, "code");
+    if (!(await sendMail({ to: email, template: "otp-code", data: { code: secret, expiresAt } }))) {
+      await logAuditEvent({ type: "otp.sent", accountId, method: "otp", outcome: "failure", detail: "Mail not sent" });
+      return { success: false, error: "Failed to send email OTP" };
+    }
+    await logAuditEvent({ type: "otp.sent", accountId, method: "otp" });
+    return { success: true, data: { accountId } };
+  } catch (error) {
+    console.error("Failed to send email OTP", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to send email OTP" };
+  }
 };
 
+/**
+ * Uniform-mode send: a registered address gets a code, an unknown one the no-account email
+ * under the same per-email limit. Only a rate limit is reported, so the replies match.
+ */
+const sendEmailCodeUniformly = async (
+  email: string,
+  existingUser: Record<string, any> | null
+): Promise<ServerResult<null>> => {
+  if (existingUser) {
+    const sendRes = await sendEmailCode(email);
+    if (!sendRes.success && sendRes.retryAfterSeconds) {
+      return { success: false, error: sendRes.error, retryAfterSeconds: sendRes.retryAfterSeconds };
+    }
+    return { success: true, data: null };
+  }
 
-const handleError = (error: unknown, message: string) => {
-  console.error(message, error);
-  throw error instanceof Error ? error : new Error(message);
+  const limit = await limitOtpSend(email);
+  if (!limit.allowed) {
+    return { success: false, error: rateLimitMessage(limit.retryAfterSeconds), retryAfterSeconds: limit.retryAfterSeconds };
+  }
+  await sendNoAccountEmail(email);
+  return { success: true, data: null };
 };
 
 /**
- * Send email OTP for verification
+ * Send (or resend) the emailed sign-in code. Only registered addresses get one; in uniform
+ * response mode an unknown address gets the no-account email and the same reply.
  */
-export const sendEmailOTP = async ({ email }: { email: string }): Promise<ServerResult<{ accountId: string }>> => {
+export const sendEmailOTP = async ({ email }: { email: string }): Promise<ServerResult<null>> => {
+  const startedAt = Date.now();
   try {
-    const { account } = await createAdminClient();
-    const session = await account.createEmailToken(ID.unique(), email);
-    return { success: true, data: { accountId: session.userId } };
+    const existingUser = await getRepositories().users.findByEmail(email);
+
+    if (isUniformResponseMode()) {
+      const sendRes = await sendEmailCodeUniformly(email, existingUser);
+      await padResponseTime(startedAt);
+      return sendRes;
+    }
+
+    if (!existingUser) return { success: false, error: "No account found for this email" };
+    const sendRes = await sendEmailCode(email);
+    if (!sendRes.success) return sendRes;
+    return { success: true, data: null };
   } catch (error) {
     console.error("Failed to send email OTP", error);
     return { success: false, error: (error instanceof Error && error.message) || "Failed to send email OTP" };
@@ -65,7 +137,8 @@ export const sendEmailOTP = async ({ email }: { email: string }): Promise<Server
 };
 
 /**
- * Create new account (Sign Up)
+ * Create new account (Sign Up). In uniform response mode the reply takes the same time
+ * whether or not the email is already registered.
  */
 export const createAccount = async ({
   fullName,
@@ -74,35 +147,30 @@ export const createAccount = async ({
   fullName: string;
   email: string;
 }): Promise<ServerResult<{ accountId: string }>> => {
+  const startedAt = Date.now();
   try {
-    const existingUser = await getUserByEmail(email);
-    const sendRes = await sendEmailOTP({ email });
+    const existingUser = await getRepositories().users.findByEmail(email);
+    const sendRes = await sendEmailCode(email);
 
     if (!sendRes.success) {
-      return { success: false, error: sendRes.error || "Failed to send OTP" };
+      return { success: false, error: sendRes.error || "Failed to send OTP", retryAfterSeconds: sendRes.retryAfterSeconds };
     }
 
     const accountId = sendRes.data.accountId;
     if (!existingUser) {
-      const { databases } = await createAdminClient();
-
-      await databases.createDocument(
-        appwriteConfig.databaseId,
-        appwriteConfig.usersCollectionId,
-        ID.unique(),
-        {
-          fullName,
-          email,
-          accountId,
-          userId: accountId,
-          avatar: avatarPlaceholderUrl,
-          authMethod: "otp",
-          hasPasskey: false,
-          passKeyCount: 0,
-        }
-      );
+      await getRepositories().users.create({
+        fullName,
+        email,
+        accountId,
+        userId: accountId,
+        avatar: avatarPlaceholderUrl,
+        authMethod: "otp",
+        hasPasskey: false,
+        passKeyCount: 0,
+      });
     }
 
+    if (isUniformResponseMode()) await padResponseTime(startedAt);
     return { success: true, data: { accountId } };
   } catch (error) {
     console.error("Failed to create account", error);
@@ -111,16 +179,104 @@ export const createAccount = async ({
 };
 
 /**
- * Sign in user (Sign In)
+ * Confirm a new account's email address with the code createAccount sent. Creates no session:
+ * the result is an enrollment ticket for the passkey registration actions.
  */
-export const signInUser = async ({ email }: { email: string }): Promise<ServerResult<{ accountId: string | null; hasPasskey: boolean }>> => {
+export const verifySignUpEmail = async ({
+  accountId,
+  password,
+}: {
+  accountId: string;
+  password: string;
+}): Promise<ServerResult<{ enrollmentTicket: string }>> => {
   try {
-    const existingUser = await getUserByEmail(email);
+    const limit = await limitVerification(accountId);
+    if (!limit.allowed) {
+      return { success: false, error: rateLimitMessage(limit.retryAfterSeconds), retryAfterSeconds: limit.retryAfterSeconds };
+    }
+
+    const { accounts } = getRepositories();
+    const proof = await accounts.createSession(accountId, password);
+    await accounts.deleteSession(accountId, proof.$id);
+    await clearVerificationFailures(accountId);
+    await logAuditEvent({ type: "otp.verified", accountId, method: "otp", detail: "Sign-up" });
+
+    return { success: true, data: { enrollmentTicket: issueEnrollmentTicket({ accountId }) } };
+  } catch (error) {
+    console.error("Failed to verify sign-up email", error);
+
+    if (error instanceof AppwriteException && (error.code === 401 || error.code === 404)) {
+      const lockout = await recordVerificationFailure(accountId);
+      await logAuditEvent({ type: "otp.failed", accountId, method: "otp", outcome: "failure", detail: "Invalid code" });
+      if (!lockout.allowed) {
+        return { success: false, error: rateLimitMessage(lockout.retryAfterSeconds), retryAfterSeconds: lockout.retryAfterSeconds };
+      }
+      return { success: false, error: "Invalid OTP. Please enter the correct code sent to your email." };
+    }
+
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to verify OTP" };
+  }
+};
+
+/**
+ * Uniform-mode sign-in: known and unknown emails get the same response shape and timing.
+ * Factor flags can't reveal enrollment either, so code-based factors are offered to everyone
+ * and passkeys go through the usernameless flow.
+ */
+const signInUserUniformly = async (
+  email: string,
+  existingUser: Record<string, any> | null,
+  sendCode: boolean,
+  startedAt: number
+): Promise<ServerResult<{ accountId: string | null; hasPasskey: boolean; hasTotp: boolean; hasRecoveryCodes: boolean }>> => {
+  // Without sendCode nothing is mailed, to known and unknown addresses alike
+  if (sendCode) {
+    const sendRes = await sendEmailCodeUniformly(email, existingUser);
+    if (!sendRes.success) return sendRes;
+  }
+
+  await padResponseTime(startedAt);
+
+  return {
+    success: true,
+    data: {
+      accountId: existingUser?.accountId ?? decoyAccountId(email),
+      hasPasskey: false,
+      hasTotp: true,
+      hasRecoveryCodes: true,
+    },
+  };
+};
+
+/**
+ * Sign in user (Sign In). sendCode is false when the user picked a passkey: the emailed
+ * code only goes out if they fall back to it (sendEmailOTP), so passkey sign-ins don't
+ * use up the per-email send limit.
+ */
+export const signInUser = async ({
+  email,
+  sendCode = true,
+}: {
+  email: string;
+  sendCode?: boolean;
+}): Promise<ServerResult<{ accountId: string | null; hasPasskey: boolean; hasTotp: boolean; hasRecoveryCodes: boolean }>> => {
+  const startedAt = Date.now();
+  try {
+    const limit = await limitSignIn();
+    if (!limit.allowed) {
+      return { success: false, error: rateLimitMessage(limit.retryAfterSeconds), retryAfterSeconds: limit.retryAfterSeconds };
+    }
+
+    const existingUser = await getRepositories().users.findByEmail(email);
+
+    if (isUniformResponseMode()) {
+      return signInUserUniformly(email, existingUser, sendCode, startedAt);
+    }
 
     if (existingUser) {
-      const sendRes = await sendEmailOTP({ email });
-      if (!sendRes.success) {
-        return { success: false, error: sendRes.error || "Failed to send OTP" };
+      const sendRes = sendCode ? await sendEmailCode(email) : null;
+      if (sendRes && !sendRes.success) {
+        return { success: false, error: sendRes.error || "Failed to send OTP", retryAfterSeconds: sendRes.retryAfterSeconds };
       }
 
       return {
@@ -128,11 +284,13 @@ export const signInUser = async ({ email }: { email: string }): Promise<ServerRe
         data: {
           accountId: existingUser.accountId,
           hasPasskey: existingUser.hasPasskey || false,
+          hasTotp: existingUser.totpEnabled || false,
+          hasRecoveryCodes: (existingUser.recoveryCodes ?? []).length > 0,
         },
       };
     }
 
-    return { success: true, data: { accountId: null, hasPasskey: false } };
+    return { success: true, data: { accountId: null, hasPasskey: false, hasTotp: false, hasRecoveryCodes: false } };
   } catch (error) {
     console.error("Failed to sign in user", error);
     return { success: false, error: (error instanceof Error && error.message) || "Failed to sign in user" };
@@ -140,21 +298,52 @@ export const signInUser = async ({ email }: { email: string }): Promise<ServerRe
 };
 
 /**
- * Verify OTP and create Appwrite session (uses Appwrite sessions — valid only for OTP/email)
+ * Verify OTP and create Appwrite session (uses Appwrite sessions — valid only for OTP/email).
+ * Rate limited per account and IP; repeated wrong codes lock the account out progressively.
+ * The risk check can still turn a correct code into a step-up (stepUp in the result) or a refusal.
  */
 
 export const verifySecret = async ({
   accountId,
   password,
+  stepUpTicket,
 }: {
   accountId: string;
   password: string;
+  /** From an earlier step-up, when the email code is the second factor */
+  stepUpTicket?: string;
 }) => {
   try {
-    const { account } = await createAdminClient();
+    const limit = await limitVerification(accountId);
+    if (!limit.allowed) {
+      await logAuditEvent({ type: "otp.failed", accountId, method: "otp", outcome: "failure", detail: "Rate limited" });
+      return {
+        success: false,
+        message: rateLimitMessage(limit.retryAfterSeconds),
+        retryAfterSeconds: limit.retryAfterSeconds,
+      };
+    }
+
+    const { accounts, users } = getRepositories();
 
     // ✅ Create Appwrite session using OTP
-    const session = await account.createSession(accountId, password);
+    const session = await accounts.createSession(accountId, password);
+    await clearVerificationFailures(accountId);
+    await logAuditEvent({ type: "otp.verified", accountId: session.accountId, method: "otp" });
+
+    // The code was right — now decide whether this sign-in may have a session
+    const user = await users.findByAccountId(session.accountId);
+    const gate = user ? await gateSignIn({ user, amr: ["otp"], stepUpTicket }) : null;
+    if (gate && gate.outcome !== "allow") {
+      await accounts.deleteSession(session.accountId, session.$id);
+      return gate.outcome === "deny"
+        ? { success: false, message: BLOCKED_SIGN_IN_MESSAGE }
+        : {
+            success: false,
+            message: "Additional verification required.",
+            stepUp: gate.challenge,
+          };
+    }
 
     // ✅ Store SESSION ID (not secret)
     cookies().set("appwrite-session", session.$id, {
@@ -164,6 +353,14 @@ export const verifySecret = async ({
       secure: true,
     });
 
+    await createSessionRecord({
+      sessionId: session.$id,
+      accountId: session.accountId,
+      authMethod: "otp",
+      amr: gate?.outcome === "allow" ? gate.amr : ["otp"],
+      expiresAt: new Date(session.expire),
+    });
+    await logAuditEvent({ type: "session.created", accountId: session.accountId, method: "otp" });
 
     return {
       success: true,
@@ -172,6 +369,33 @@ export const verifySecret = async ({
   } catch (error: any) {
     console.error("Failed to verify OTP", error);
 
+    // Appwrite answers a wrong or expired code with 401, and an unknown (decoy) account with 404
+    const rejected =
+      error instanceof AppwriteException &&
+      (error.code === 401 || (error.code === 404 && isUniformResponseMode()));
+
+    if (rejected) {
+      const lockout = await recordVerificationFailure(accountId);
+      await logAuditEvent({
+        type: "otp.failed",
+        accountId,
+        method: "otp",
+        outcome: "failure",
+        detail: lockout.allowed ? "Invalid code" : "Invalid code, account locked",
+      });
+      if (!lockout.allowed) {
+        return {
+          success: false,
+          message: rateLimitMessage(lockout.retryAfterSeconds),
+          retryAfterSeconds: lockout.retryAfterSeconds,
+        };
+      }
+
+      if (isUniformResponseMode()) {
+        return { success: false, message: "Invalid token passed in the request." };
+      }
+    }
+
     return {
       success: false,
       message:
@@ -183,19 +407,68 @@ export const verifySecret = async ({
 };
 
 /**
- * Create custom passkey session — sets a cookie 'app-session' with the accountId.
+ * Create custom passkey session — exchanges the login ticket issued by verifyPasskeyLogin
+ * (or verifyTotpLogin) for a signed session token stored in the 'app-session' cookie.
  * This does NOT call Appwrite's createSession and is intended for passkey-authenticated users.
+ * Subject to the risk check: may answer with a step-up challenge or refuse instead.
  */
-export const createPasskeySession = async (accountId: string): Promise<ServerResult<{ accountId: string }>> => {
+export const createPasskeySession = async ({
+  loginTicket,
+  stepUpTicket,
+}: {
+  loginTicket: string;
+  /** From an earlier step-up, when this ticket's factor is the second one */
+  stepUpTicket?: string;
+}): Promise<ServerResult<{ accountId: string }>> => {
   try {
-    (await cookies()).set("app-session", accountId, {
-      path: "/docs",
+    const ticket = verifyLoginTicket(loginTicket);
+    if (!ticket) {
+      return { success: false, error: "Invalid or expired login ticket" };
+    }
+
+    const user = await getRepositories().users.findByAccountId(ticket.sub);
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    const gate = await gateSignIn({
+      user,
+      amr: ticket.amr,
+      stepUpTicket,
+      requireSecondFactor: ticket.requiresSecondFactor,
+    });
+    if (gate.outcome === "deny") {
+      return { success: false, error: BLOCKED_SIGN_IN_MESSAGE };
+    }
+    if (gate.outcome === "step-up") {
+      // The email code is always an option; have it waiting in the inbox
+      if (gate.challenge.methods.includes("otp")) await sendEmailCode(user.email);
+      return { success: false, error: "Additional verification required.", stepUp: gate.challenge };
+    }
+
+    const { token, claims } = issueSessionToken({
+      accountId: ticket.sub,
+      amr: gate.amr,
+    });
+
+    await createSessionRecord({
+      sessionId: claims.sid,
+      accountId: claims.sub,
+      authMethod: ticket.amr[0],
+      amr: claims.amr,
+      expiresAt: new Date(claims.exp * 1000),
+    });
+    await logAuditEvent({ type: "session.created", accountId: claims.sub, method: claims.amr[0] });
+
+    (await cookies()).set("app-session", token, {
+      path: "/",
       httpOnly: true,
       sameSite: "strict",
       secure: true,
+      maxAge: SESSION_TTL_SECONDS,
     });
 
-    return { success: true, data: { accountId } };
+    return { success: true, data: { accountId: claims.sub } };
   } catch (error) {
     console.error("Failed to create passkey session", error);
     return { success: false, error: (error instanceof Error && error.message) || "Failed to create passkey session" };
@@ -204,28 +477,29 @@ export const createPasskeySession = async (accountId: string): Promise<ServerRes
 
 /**
  * Get current user - checks custom passkey cookie first, otherwise Appwrite session cookie.
+ * Either way the session must have an active (non-revoked) server-side record.
  */
 export const getCurrentUser = async (): Promise<ServerResult<any | null>> => {
   try {
-    // 1) Check custom passkey session
-    const customAccountId = await getCustomPasskeySessionAccountId();
-    if (customAccountId) {
-      const user = await getUserByAccountId(customAccountId);
+    const currentSession = await resolveCurrentSession();
+    if (!currentSession) return { success: true, data: null };
+
+    // 1) Custom session (passkey / authenticator app)
+    if (currentSession.authMethod !== "otp") {
+      const user = await getRepositories().users.findByAccountId(currentSession.accountId);
       if (!user) return { success: true, data: null };
       return { success: true, data: parseStringify(user) };
     }
 
     // 2) Fall back to Appwrite session
     try {
-      const { databases, account } = await createSessionClient();
-      const result = await account.get();
-      const user = await databases.listDocuments(
-        appwriteConfig.databaseId,
-        appwriteConfig.usersCollectionId,
-        [Query.equal("accountId", result.$id)]
-      );
-      if (user.total <= 0) return { success: true, data: null };
-      return { success: true, data: parseStringify(user.documents[0]) };
+      const { accounts, users } = getRepositories();
+      if (!(await accounts.isSessionActive(currentSession.accountId, currentSession.sessionId))) {
+        return { success: true, data: null };
+      }
+      const user = await users.findByAccountId(currentSession.accountId);
+      if (!user) return { success: true, data: null };
+      return { success: true, data: parseStringify(user) };
     } catch (e) {
       // no appwrite session
       return { success: true, data: null };
@@ -241,12 +515,14 @@ export const getCurrentUser = async (): Promise<ServerResult<any | null>> => {
  */
 export const signOutUser = async (): Promise<ServerResult<null>> => {
   try {
-    // Try to delete Appwrite session if present
-    try {
-      const { account } = await createSessionClient();
-      await account.deleteSession("current");
-    } catch {
-      // no-op if no appwrite session
+    const currentSession = await resolveCurrentSession();
+    if (currentSession) {
+      await revokeSessionRecord(currentSession);
+      await logAuditEvent({
+        type: "sign-out",
+        accountId: currentSession.accountId,
+        method: currentSession.authMethod,
+      });
     }
 
     const c = await cookies();
@@ -262,57 +538,264 @@ export const signOutUser = async (): Promise<ServerResult<null>> => {
   }
 };
 
+/** Session as shown on the "Your sessions" page */
+export interface SessionSummary {
+  sessionId: string;
+  authMethod: SessionRecord["authMethod"];
+  device: string;
+  userAgent: string;
+  ipAddress: string;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+/**
+ * List the current user's active sessions
+ */
+export const getMySessions = async (): Promise<ServerResult<SessionSummary[]>> => {
+  try {
+    const currentSession = await resolveCurrentSession();
+    if (!currentSession) return { success: false, error: "Not signed in" };
+
+    const policyError = await enforceActionPolicy("/settings/sessions");
+    if (policyError) return { success: false, error: policyError };
+
+    const records = await listSessionRecords(currentSession.accountId);
+
+    return {
+      success: true,
+      data: records.map((record) => ({
+        sessionId: record.sessionId,
+        authMethod: record.authMethod,
+        device: record.device,
+        userAgent: record.userAgent,
+        ipAddress: record.ipAddress,
+        createdAt: record.$createdAt,
+        lastSeenAt: record.lastSeenAt,
+        current: record.sessionId === currentSession.sessionId,
+      })),
+    };
+  } catch (error) {
+    console.error("Failed to list sessions", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to list sessions" };
+  }
+};
+
 /**
- * Register passkey for user
+ * Revoke one of the current user's sessions
  */
-export const registerUserPasskey = async ({
+export const revokeMySession = async ({
+  sessionId,
+}: {
+  sessionId: string;
+}): Promise<ServerResult<{ current: boolean }>> => {
+  try {
+    const currentSession = await resolveCurrentSession();
+    if (!currentSession) return { success: false, error: "Not signed in" };
+
+    const policyError = await enforceActionPolicy("/settings/sessions");
+    if (policyError) return { success: false, error: policyError };
+
+    const records = await listSessionRecords(currentSession.accountId);
+    const target = records.find((record) => record.sessionId === sessionId);
+    if (!target) return { success: false, error: "Session not found" };
+
+    await revokeSessionRecord(target);
+    await logAuditEvent({
+      type: "session.revoked",
+      accountId: currentSession.accountId,
+      method: target.authMethod,
+      detail: target.device,
+    });
+
+    const current = target.sessionId === currentSession.sessionId;
+    if (current) {
+      const c = await cookies();
+      c.delete("appwrite-session");
+      c.delete("app-session");
+    }
+
+    return { success: true, data: { current } };
+  } catch (error) {
+    console.error("Failed to revoke session", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to revoke session" };
+  }
+};
+
+/**
+ * Revoke every session of the current user, including this one
+ */
+export const revokeAllMySessions = async (): Promise<ServerResult<{ revoked: number }>> => {
+  try {
+    const currentSession = await resolveCurrentSession();
+    if (!currentSession) return { success: false, error: "Not signed in" };
+
+    const policyError = await enforceActionPolicy("/settings/sessions");
+    if (policyError) return { success: false, error: policyError };
+
+    const revoked = await revokeAllSessionRecords(currentSession.accountId);
+    await logAuditEvent({
+      type: "session.revoked",
+      accountId: currentSession.accountId,
+      detail: `All sessions (${revoked})`,
+    });
+
+    const c = await cookies();
+    c.delete("appwrite-session");
+    c.delete("app-session");
+
+    return { success: true, data: { revoked } };
+  } catch (error) {
+    console.error("Failed to revoke sessions", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to revoke sessions" };
+  }
+};
+
+/**
+ * Change the current user's email address. Needs a recent re-auth; the old address is told.
+ */
+export const changeMyEmail = requireRecentAuth(SENSITIVE_ACTION_MAX_AGE_SECONDS)(async ({
   email,
-  accountId,
 }: {
   email: string;
-  accountId: string;
-}): Promise<ServerResult<{ success: boolean }>> => {
+}): Promise<ServerResult<{ email: string }>> => {
   try {
-    const { databases } = await createAdminClient();
+    const current = await getCurrentUser();
+    if (!current.success || !current.data) return { success: false, error: "Not signed in" };
+    const user = current.data;
 
-    const user = await getUserByEmail(email);
+    const policyError = await enforceActionPolicy("/settings/email");
+    if (policyError) return { success: false, error: policyError };
 
-    if (!user) {
-      return { success: false, error: "User not found" };
-    }
+    const newEmail = email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(newEmail)) return { success: false, error: "Invalid email address" };
+    if (newEmail === user.email) return { success: false, error: "That's already your email address." };
+    if (await getRepositories().users.findByEmail(newEmail)) return { success: false, error: "That email address is already in use." };
 
-    await databases.updateDocument(
-      appwriteConfig.databaseId,
-      appwriteConfig.usersCollectionId,
-      user.$id,
-      {
-        hasPasskey: true,
-        authMethod: "passkey",
-      }
-    );
+    const { accounts, users } = getRepositories();
+    await accounts.updateEmail(user.accountId, newEmail);
+    await users.update(user.$id, { email: newEmail });
+
+    await logAuditEvent({ type: "email.changed", accountId: user.accountId, detail: `${user.email} → ${newEmail}` });
+    await sendMail({ to: user.email, template: "email-changed", data: { newEmail } });
 
-    return { success: true, data: { success: true } };
+    return { success: true, data: { email: newEmail } };
   } catch (error) {
-    console.error("Failed to register passkey", error);
-    return { success: false, error: (error instanceof Error && error.message) || "Failed to register passkey" };
+    console.error("Failed to change email", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to change email" };
+  }
+});
+
+/**
+ * What the current session needs before it may open a route (for the step-up page)
+ */
+export const getStepUpRequirement = async ({
+  route,
+}: {
+  route: string;
+}): Promise<ServerResult<{ accountId: string; email: string; methods: AuthMethod[]; satisfied: boolean }>> => {
+  try {
+    const currentSession = await resolveCurrentSession();
+    if (!currentSession) return { success: false, error: "Not signed in" };
+
+    const user = await getRepositories().users.findByAccountId(currentSession.accountId);
+    if (!user) return { success: false, error: "User not found" };
+
+    const decision = await checkSessionPolicy(currentSession, route);
+
+    return {
+      success: true,
+      data: {
+        accountId: user.accountId,
+        email: user.email,
+        methods: stepUpMethodsFor(user, currentSession, decision),
+        satisfied: decision.outcome === "allow",
+      },
+    };
+  } catch (error) {
+    console.error("Failed to get step-up requirement", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to get step-up requirement" };
   }
 };
 
-export const getUserForPasskeyLogin = async ({
-  accountId,
+/**
+ * Add a freshly verified factor to the current session. Takes the login ticket from
+ * verifyPasskeyLogin, verifyTotpLogin or verifyRecoveryCodeLogin for the same account.
+ */
+export const elevateSession = async ({
+  loginTicket,
 }: {
-  accountId: string;
-}): Promise<ServerResult<any>> => {
+  loginTicket: string;
+}): Promise<ServerResult<{ amr: AuthMethod[] }>> => {
   try {
-    const user = await getUserByAccountId(accountId);
+    const currentSession = await resolveCurrentSession();
+    if (!currentSession) return { success: false, error: "Not signed in" };
 
-    if (!user) {
-      return { success: false, error: "User not found" };
+    const ticket = verifyLoginTicket(loginTicket);
+    if (!ticket || ticket.sub !== currentSession.accountId) {
+      return { success: false, error: "Invalid or expired login ticket" };
+    }
+    if (ticket.requiresSecondFactor) {
+      return { success: false, error: "This factor can't be used to verify. Please choose another method." };
     }
 
-    return { success: true, data: parseStringify(user) };
+    const updated = await addSessionFactors(currentSession, ticket.amr);
+    await logAuditEvent({
+      type: "session.stepped-up",
+      accountId: currentSession.accountId,
+      method: ticket.amr[0],
+      detail: updated.amr.join(", "),
+    });
+
+    return { success: true, data: { amr: updated.amr } };
   } catch (error) {
-    console.error("Failed to get user", error);
-    return { success: false, error: (error instanceof Error && error.message) || "Failed to get user" };
+    console.error("Failed to step up session", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to step up session" };
+  }
+};
+
+/**
+ * Step up the current session with an email code. The Appwrite session that proves the
+ * code is deleted straight away; only the factor is kept.
+ */
+export const elevateSessionWithOtp = async ({
+  password,
+}: {
+  password: string;
+}): Promise<ServerResult<{ amr: AuthMethod[] }>> => {
+  const currentSession = await resolveCurrentSession();
+  if (!currentSession) return { success: false, error: "Not signed in" };
+  const { accountId } = currentSession;
+
+  try {
+    const limit = await limitVerification(accountId);
+    if (!limit.allowed) {
+      return { success: false, error: rateLimitMessage(limit.retryAfterSeconds), retryAfterSeconds: limit.retryAfterSeconds };
+    }
+
+    const { accounts } = getRepositories();
+    const proof = await accounts.createSession(accountId, password);
+    await accounts.deleteSession(accountId, proof.$id);
+    await clearVerificationFailures(accountId);
+    await logAuditEvent({ type: "otp.verified", accountId, method: "otp" });
+
+    const updated = await addSessionFactors(currentSession, ["otp"]);
+    await logAuditEvent({ type: "session.stepped-up", accountId, method: "otp", detail: updated.amr.join(", ") });
+
+    return { success: true, data: { amr: updated.amr } };
+  } catch (error) {
+    console.error("Failed to step up session with OTP", error);
+
+    if (error instanceof AppwriteException && error.code === 401) {
+      const lockout = await recordVerificationFailure(accountId);
+      await logAuditEvent({ type: "otp.failed", accountId, method: "otp", outcome: "failure", detail: "Invalid code" });
+      if (!lockout.allowed) {
+        return { success: false, error: rateLimitMessage(lockout.retryAfterSeconds), retryAfterSeconds: lockout.retryAfterSeconds };
+      }
+      return { success: false, error: "Invalid OTP. Please enter the correct code sent to your email." };
+    }
+
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to verify OTP" };
   }
 };
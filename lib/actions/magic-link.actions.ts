@@ -0,0 +1,114 @@
+"use server";
+
+import { verifySecret, type ServerResult } from "@/lib/actions/auth.actions";
+import { logAuditEvent } from "@/lib/auth/audit-log";
+import { isUniformResponseMode, padResponseTime, sendNoAccountEmail } from "@/lib/auth/enumeration-guard";
+import { clearMagicLinkBinding, createMagicLinkUrl, isMagicLinkEnabled, readMagicLink } from "@/lib/auth/magic-link";
+import { limitOtpSend, limitSignIn, rateLimitMessage } from "@/lib/auth/rate-limit";
+import { sendMail } from "@/lib/mail";
+import { getRepositories } from "@/lib/repositories";
+import { getSafeRedirect } from "@/lib/utils";
+
+const INVALID_LINK_MESSAGE = "This sign-in link is invalid or has expired. Request a new one.";
+
+/**
+ * Email a sign-in link bound to this browser. In uniform response mode unknown addresses
+ * get the no-account email and the same reply.
+ */
+export const sendMagicLink = async ({
+  email,
+  redirectTo,
+}: {
+  email: string;
+  redirectTo?: string;
+}): Promise<ServerResult<null>> => {
+  const startedAt = Date.now();
+  try {
+    if (!isMagicLinkEnabled()) return { success: false, error: "Sign-in links are not enabled." };
+
+    const limit = await limitSignIn();
+    if (!limit.allowed) {
+      return { success: false, error: rateLimitMessage(limit.retryAfterSeconds), retryAfterSeconds: limit.retryAfterSeconds };
+    }
+    const sendLimit = await limitOtpSend(email);
+    if (!sendLimit.allowed) {
+      await logAuditEvent({ type: "magic-link.sent", accountId: null, method: "otp", outcome: "failure", detail: "Rate limited" });
+      return { success: false, error: rateLimitMessage(sendLimit.retryAfterSeconds), retryAfterSeconds: sendLimit.retryAfterSeconds };
+    }
+
+    const { accounts, users } = getRepositories();
+    const user = await users.findByEmail(email);
+
+    if (user) {
+      const url = new URL(
+        await createMagicLinkUrl({ accountId: user.accountId, redirectTo: getSafeRedirect(redirectTo) })
+      );
+      const { accountId, secret, expiresAt } = await accounts.createEmailToken(email, "link");
+      url.searchParams.set("userId", accountId);
+      url.searchParams.set("secret", secret);
+
+      await sendMail({ to: email, template: "magic-link", data: { url: url.toString(), expiresAt } });
+      await logAuditEvent({ type: "magic-link.sent", accountId, method: "otp" });
+    } else if (isUniformResponseMode()) {
+      await sendNoAccountEmail(email);
+    } else {
+      return { success: false, error: "User not found" };
+    }
+
+    if (isUniformResponseMode()) await padResponseTime(startedAt);
+    return { success: true, data: null };
+  } catch (error) {
+    console.error("Failed to send sign-in link", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to send sign-in link" };
+  }
+};
+
+/**
+ * Finish signing in from an emailed link: the secret goes through verifySecret like a code.
+ * A link opened outside the browser that asked for it needs confirmed=true, which the
+ * /verify page only sends once the user has said the request was theirs.
+ */
+export const completeMagicLinkSignIn = async ({
+  accountId,
+  secret,
+  state,
+  confirmed = false,
+}: {
+  accountId: string;
+  secret: string;
+  state: string;
+  confirmed?: boolean;
+}): Promise<ServerResult<{ redirectTo: string }>> => {
+  try {
+    const link = await readMagicLink({ accountId, state });
+    if (!link) return { success: false, error: INVALID_LINK_MESSAGE };
+    if (!link.sameBrowser && !confirmed) {
+      return { success: false, error: "Confirm that you requested this sign-in link." };
+    }
+
+    const result = await verifySecret({ accountId, password: secret });
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.message || INVALID_LINK_MESSAGE,
+        retryAfterSeconds: result.retryAfterSeconds,
+        stepUp: result.stepUp,
+      };
+    }
+
+    if (link.sameBrowser) {
+      clearMagicLinkBinding();
+    } else {
+      await logAuditEvent({
+        type: "magic-link.confirmed",
+        accountId,
+        method: "otp",
+        detail: `Requested from ${link.requestedFrom}`,
+      });
+    }
+    return { success: true, data: { redirectTo: link.redirectTo } };
+  } catch (error) {
+    console.error("Failed to sign in with link", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to sign in with link" };
+  }
+};
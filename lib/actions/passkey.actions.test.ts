@@ -0,0 +1,90 @@
+// lib/actions/passkey.actions.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getPasskeyLoginOptions, verifyPasskeyLogin } from "@/lib/actions/passkey.actions";
+import { decoyAccountId } from "@/lib/auth/enumeration-guard";
+import type { AuthenticationResponseJSON } from "@/lib/auth/webauthn";
+import { getRepositories } from "@/lib/repositories";
+
+vi.mock("@/lib/config", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/config")>();
+  return {
+    ...actual,
+    getConfig: () => actual.loadConfig({ ...process.env, AUTH_UNIFORM_RESPONSES: "true" }),
+  };
+});
+
+const UNKNOWN_PASSKEY = {
+  id: "unknown-credential",
+  rawId: "unknown-credential",
+  type: "public-key",
+  response: { clientDataJSON: "", authenticatorData: "", signature: "" },
+  clientExtensionResults: {},
+} as AuthenticationResponseJSON;
+
+/** A user with one passkey, one without and an address nobody registered */
+const ACCOUNTS = {
+  withPasskey: "account-with-passkey",
+  withoutPasskey: "account-without-passkey",
+  unknown: decoyAccountId("nobody@example.com"),
+};
+
+const addUser = (accountId: string, hasPasskey: boolean) =>
+  getRepositories().users.create({
+    accountId,
+    userId: accountId,
+    fullName: "Ada Lovelace",
+    email: `${accountId}@example.com`,
+    avatar: null,
+    authMethod: hasPasskey ? "passkey" : "otp",
+    hasPasskey,
+    passKeyCount: hasPasskey ? 1 : 0,
+  });
+
+describe("passkey sign-in in uniform response mode", () => {
+  beforeEach(async () => {
+    await addUser(ACCOUNTS.withPasskey, true);
+    await addUser(ACCOUNTS.withoutPasskey, false);
+    await getRepositories().credentials.create({
+      credentialId: "registered-credential",
+      accountId: ACCOUNTS.withPasskey,
+      userHandle: null,
+      name: "Passkey",
+      deviceType: "multiDevice",
+      backupEligible: true,
+      backedUp: true,
+      publicKey: "",
+      counter: 0,
+      transports: ["internal"],
+      aaguid: "",
+      authenticatorModel: null,
+      lastUsedAt: null,
+      cloneSuspectedAt: null,
+    });
+  });
+
+  it("offers discoverable options whatever the accountId", async () => {
+    for (const accountId of [...Object.values(ACCOUNTS), undefined]) {
+      const result = await getPasskeyLoginOptions({ accountId });
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.data.options.allowCredentials).toEqual([]);
+    }
+  });
+
+  it("fails verification the same way whatever the accountId", async () => {
+    const errors: string[] = [];
+    for (const accountId of Object.values(ACCOUNTS)) {
+      const ceremony = await getPasskeyLoginOptions({ accountId });
+      const result = await verifyPasskeyLogin({
+        accountId,
+        ceremonyId: ceremony.success ? ceremony.data.ceremonyId : "",
+        response: UNKNOWN_PASSKEY,
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) errors.push(result.error);
+    }
+
+    expect(new Set(errors)).toEqual(new Set(["This passkey is not registered"]));
+  });
+});
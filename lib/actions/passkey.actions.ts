@@ -0,0 +1,360 @@
+"use server";
+
+import { parseStringify } from "@/lib/utils";
+import { getCurrentUser, type ServerResult } from "@/lib/actions/auth.actions";
+import {
+  createAuthenticationOptions,
+  createRegistrationOptions,
+  verifyAuthentication,
+  verifyRegistration,
+  type AuthenticationResponseJSON,
+  type Ceremony,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from "@/lib/auth/webauthn";
+import {
+  deleteCredentialRecord,
+  listCredentialRecords,
+  renameCredentialRecord,
+  syncUserPasskeyFlags,
+} from "@/lib/auth/credential-store";
+import { issueLoginTicket, verifyEnrollmentTicket } from "@/lib/auth/session-token";
+import { issueRecoveryCodes } from "@/lib/auth/recovery-codes";
+import { isUniformResponseMode } from "@/lib/auth/enumeration-guard";
+import { logAuditEvent } from "@/lib/auth/audit-log";
+import { notifyUser } from "@/lib/auth/notifications";
+import { enforceActionPolicy } from "@/lib/auth/session-policy";
+import { requireRecentAuth, SENSITIVE_ACTION_MAX_AGE_SECONDS } from "@/lib/auth/recent-auth";
+import { getRepositories, type UserRecord } from "@/lib/repositories";
+import { getConfig } from "@/lib/config";
+
+/** A passkey as listed on the settings page */
+export type PasskeySummary = {
+  credentialId: string;
+  name: string;
+  deviceType: "singleDevice" | "multiDevice";
+  backedUp: boolean;
+  authenticatorModel: string | null;
+  cloneSuspected: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+const MAX_PASSKEY_NAME_LENGTH = 64;
+
+/* ----------------------
+   Registration
+   ---------------------- */
+
+/**
+ * The user a passkey is being enrolled for: the signed-in user, or the new account an
+ * enrollment ticket (from verifySignUpEmail) vouches for. Never a client-supplied accountId.
+ * A ticket only covers the first passkey; later ones are added from the settings page.
+ */
+const findEnrollingUser = async (enrollmentTicket?: string): Promise<UserRecord | null> => {
+  if (enrollmentTicket) {
+    const claims = verifyEnrollmentTicket(enrollmentTicket);
+    const user = claims ? await getRepositories().users.findByAccountId(claims.sub) : null;
+    return user && !user.hasPasskey ? user : null;
+  }
+
+  const current = await getCurrentUser();
+  return current.success && current.data ? (current.data as UserRecord) : null;
+};
+
+/**
+ * Registration options for the enrolling user; the challenge is kept until
+ * verifyPasskeyRegistration is called with the returned ceremonyId, or the ceremony times out
+ */
+export const getPasskeyRegistrationOptions = async ({
+  enrollmentTicket,
+}: {
+  enrollmentTicket?: string;
+} = {}): Promise<ServerResult<Ceremony<PublicKeyCredentialCreationOptionsJSON>>> => {
+  try {
+    const user = await findEnrollingUser(enrollmentTicket);
+    if (!user) return { success: false, error: "Sign in or verify your email to add a passkey." };
+
+    const ceremony = await createRegistrationOptions(user);
+    return { success: true, data: parseStringify(ceremony) };
+  } catch (error) {
+    console.error("Failed to get WebAuthn registration options", error);
+    return {
+      success: false,
+      error: (error instanceof Error && error.message) || "Failed to get WebAuthn registration options",
+    };
+  }
+};
+
+/**
+ * Verify the browser's attestation and store the passkey.
+ * The first passkey of an account comes with a fresh set of recovery codes.
+ */
+export const verifyPasskeyRegistration = async ({
+  enrollmentTicket,
+  ceremonyId,
+  response,
+}: {
+  enrollmentTicket?: string;
+  ceremonyId: string;
+  response: RegistrationResponseJSON;
+}): Promise<ServerResult<{ recoveryCodes?: string[] }>> => {
+  try {
+    const user = await findEnrollingUser(enrollmentTicket);
+    if (!user) return { success: false, error: "Sign in or verify your email to add a passkey." };
+
+    const result = await verifyRegistration(user, ceremonyId, response);
+    if (!result.verified) return { success: false, error: result.error };
+
+    await logAuditEvent({
+      type: "passkey.registered",
+      accountId: user.accountId,
+      method: "passkey",
+      detail: result.credential.name,
+    });
+    await notifyUser({ accountId: user.accountId, template: "passkey-added", data: { name: result.credential.name } });
+
+    // First passkey enrolled: hand out recovery codes so losing the device isn't fatal
+    const recoveryCodes =
+      (user.recoveryCodes ?? []).length === 0 ? await issueRecoveryCodes(user) : undefined;
+
+    return { success: true, data: { recoveryCodes } };
+  } catch (error) {
+    console.error("Failed to verify WebAuthn registration", error);
+    return {
+      success: false,
+      error: (error instanceof Error && error.message) || "Failed to verify WebAuthn registration",
+    };
+  }
+};
+
+/* ----------------------
+   Sign-in
+   ---------------------- */
+
+/**
+ * The account whose passkeys a ceremony lists. In uniform response mode none: whether an
+ * account exists, has passkeys and which ones must not show, so every ceremony is
+ * discoverable and the account comes from the credential. Callers that need a particular
+ * account (step-up, elevation) check the login ticket's subject.
+ */
+const findPasskeyUser = async (accountId?: string) =>
+  accountId && !isUniformResponseMode() ? getRepositories().users.findByAccountId(accountId) : null;
+
+/**
+ * Login options. With an accountId they list that account's passkeys (email-first sign-in
+ * and step-up); without one, or in uniform response mode, the browser offers every
+ * resident passkey for this site.
+ */
+export const getPasskeyLoginOptions = async ({
+  accountId,
+}: {
+  accountId?: string;
+} = {}): Promise<ServerResult<Ceremony<PublicKeyCredentialRequestOptionsJSON>>> => {
+  try {
+    const user = await findPasskeyUser(accountId);
+    if (accountId && !user && !isUniformResponseMode()) {
+      return { success: false, error: "User not found for WebAuthn login" };
+    }
+
+    const ceremony = await createAuthenticationOptions(user);
+    if (!ceremony) return { success: false, error: "User does not have a registered WebAuthn credential" };
+
+    return { success: true, data: parseStringify(ceremony) };
+  } catch (error) {
+    console.error("Failed to get WebAuthn login options", error);
+    return {
+      success: false,
+      error: (error instanceof Error && error.message) || "Failed to get WebAuthn login options",
+    };
+  }
+};
+
+const CLONED_PASSKEY_MESSAGE =
+  "This passkey may have been copied and can no longer be used to sign in. Sign in another way and remove it in your passkey settings.";
+
+/**
+ * Verify an assertion and return a login ticket, which createPasskeySession exchanges for
+ * a session (or a step-up consumes). Pass the same accountId as getPasskeyLoginOptions,
+ * and the ceremonyId it returned.
+ * A passkey flagged as cloned is refused, or under WEBAUTHN_COUNTER_REGRESSION=step-up
+ * gets a ticket that needs a second factor.
+ */
+export const verifyPasskeyLogin = async ({
+  accountId,
+  ceremonyId,
+  response,
+}: {
+  accountId?: string;
+  ceremonyId: string;
+  response: AuthenticationResponseJSON;
+}): Promise<ServerResult<{ loginTicket: string }>> => {
+  try {
+    const user = await findPasskeyUser(accountId);
+    if (accountId && !user && !isUniformResponseMode()) {
+      return { success: false, error: "User not found for WebAuthn login verification" };
+    }
+
+    const result = await verifyAuthentication(user, ceremonyId, response);
+
+    if (!result.verified) {
+      if (result.user && result.credential) {
+        await logAuditEvent({
+          type: "passkey.failed",
+          accountId: result.user.accountId,
+          method: "passkey",
+          outcome: "failure",
+          detail: result.credential.name,
+        });
+      }
+      return { success: false, error: result.error };
+    }
+
+    const { user: owner, credential, counterRegressed } = result;
+    if (counterRegressed) {
+      await logAuditEvent({
+        type: "passkey.clone-suspected",
+        accountId: owner.accountId,
+        method: "passkey",
+        outcome: "failure",
+        detail: credential.name,
+      });
+      await notifyUser({ accountId: owner.accountId, template: "passkey-cloned", data: { name: credential.name } });
+    }
+
+    const suspect = Boolean(credential.cloneSuspectedAt);
+    if (suspect && getConfig().webauthn.counterRegression === "block") {
+      return { success: false, error: CLONED_PASSKEY_MESSAGE };
+    }
+
+    await logAuditEvent({
+      type: "passkey.used",
+      accountId: owner.accountId,
+      method: "passkey",
+      detail: credential.name,
+    });
+
+    const loginTicket = issueLoginTicket({
+      accountId: owner.accountId,
+      amr: ["passkey"],
+      requiresSecondFactor: suspect,
+    });
+    return { success: true, data: { loginTicket } };
+  } catch (error) {
+    console.error("Failed to verify WebAuthn login", error);
+    return {
+      success: false,
+      error: (error instanceof Error && error.message) || "Failed to verify WebAuthn login",
+    };
+  }
+};
+
+/* ----------------------
+   Management (signed in)
+   ---------------------- */
+
+/** List the current user's passkeys */
+export const listPasskeys = async (): Promise<ServerResult<PasskeySummary[]>> => {
+  try {
+    const current = await getCurrentUser();
+    if (!current.success || !current.data) return { success: false, error: "Not signed in" };
+
+    const policyError = await enforceActionPolicy("/settings/passkeys");
+    if (policyError) return { success: false, error: policyError };
+
+    const credentials = await listCredentialRecords(current.data.accountId);
+
+    return {
+      success: true,
+      data: credentials.map((c) => ({
+        credentialId: c.credentialId,
+        name: c.name,
+        deviceType: c.deviceType,
+        backedUp: Boolean(c.backedUp),
+        authenticatorModel: c.authenticatorModel ?? null,
+        cloneSuspected: Boolean(c.cloneSuspectedAt),
+        createdAt: c.$createdAt,
+        lastUsedAt: c.lastUsedAt,
+      })),
+    };
+  } catch (error) {
+    console.error("Failed to list passkeys", error);
+    return { success: false, error: "Failed to list passkeys." };
+  }
+};
+
+/** Give one of the current user's passkeys a friendly name */
+export const renamePasskey = async ({
+  credentialId,
+  name,
+}: {
+  credentialId: string;
+  name: string;
+}): Promise<ServerResult<null>> => {
+  try {
+    const trimmed = typeof name === "string" ? name.trim() : "";
+    if (!trimmed || trimmed.length > MAX_PASSKEY_NAME_LENGTH) {
+      return { success: false, error: `Name must be 1-${MAX_PASSKEY_NAME_LENGTH} characters.` };
+    }
+
+    const current = await getCurrentUser();
+    if (!current.success || !current.data) return { success: false, error: "Not signed in" };
+
+    const policyError = await enforceActionPolicy("/settings/passkeys");
+    if (policyError) return { success: false, error: policyError };
+
+    const credentials = await listCredentialRecords(current.data.accountId);
+    const target = credentials.find((c) => c.credentialId === credentialId);
+    if (!target) return { success: false, error: "Passkey not found." };
+
+    await renameCredentialRecord(target, trimmed);
+    return { success: true, data: null };
+  } catch (error) {
+    console.error("Failed to rename passkey", error);
+    return { success: false, error: "Failed to rename passkey." };
+  }
+};
+
+/** Delete one of the current user's passkeys — never the last remaining factor. Needs a recent re-auth. */
+export const deletePasskey = requireRecentAuth(SENSITIVE_ACTION_MAX_AGE_SECONDS)(async (
+  credentialId: string
+): Promise<ServerResult<{ remaining: number }>> => {
+  try {
+    if (!credentialId || typeof credentialId !== "string") throw new Error("credentialId is required");
+
+    const current = await getCurrentUser();
+    if (!current.success || !current.data) return { success: false, error: "Not signed in" };
+    const user = current.data;
+
+    const policyError = await enforceActionPolicy("/settings/passkeys");
+    if (policyError) return { success: false, error: policyError };
+
+    const credentials = await listCredentialRecords(user.accountId);
+    const target = credentials.find((c) => c.credentialId === credentialId);
+    if (!target) return { success: false, error: "Passkey not found." };
+
+    // Email OTP is the account identifier itself and doesn't count as a factor
+    if (credentials.length === 1 && !user.totpEnabled) {
+      return {
+        success: false,
+        error: "You can't remove your last sign-in factor. Add another passkey or an authenticator app first.",
+      };
+    }
+
+    await deleteCredentialRecord(target);
+    const remaining = await syncUserPasskeyFlags(user);
+    await logAuditEvent({
+      type: "passkey.deleted",
+      accountId: user.accountId,
+      method: "passkey",
+      detail: target.name,
+    });
+    await notifyUser({ accountId: user.accountId, template: "passkey-removed", data: { name: target.name } });
+
+    return { success: true, data: { remaining } };
+  } catch (error) {
+    console.error("Failed to delete passkey", error);
+    return { success: false, error: "Failed to delete passkey." };
+  }
+});
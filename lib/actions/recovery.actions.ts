@@ -0,0 +1,112 @@
+"use server";
+
+import { getCurrentUser, type ServerResult } from "@/lib/actions/auth.actions";
+import { issueLoginTicket } from "@/lib/auth/session-token";
+import { notifyUser } from "@/lib/auth/notifications";
+import {
+  clearVerificationFailures,
+  limitVerification,
+  rateLimitMessage,
+  recordVerificationFailure,
+} from "@/lib/auth/rate-limit";
+import { isUniformResponseMode } from "@/lib/auth/enumeration-guard";
+import { logAuditEvent } from "@/lib/auth/audit-log";
+import { enforceActionPolicy } from "@/lib/auth/session-policy";
+import { requireRecentAuth, SENSITIVE_ACTION_MAX_AGE_SECONDS } from "@/lib/auth/recent-auth";
+import { consumeRecoveryCode, issueRecoveryCodes } from "@/lib/auth/recovery-codes";
+import { getRepositories } from "@/lib/repositories";
+
+/**
+ * How many unused recovery codes the current user has left
+ */
+export const getRecoveryCodeStatus = async (): Promise<ServerResult<{ remaining: number }>> => {
+  try {
+    const current = await getCurrentUser();
+    if (!current.success || !current.data) return { success: false, error: "Not signed in" };
+
+    return { success: true, data: { remaining: (current.data.recoveryCodes ?? []).length } };
+  } catch (error) {
+    console.error("Failed to get recovery code status", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to get recovery code status" };
+  }
+};
+
+/**
+ * Regenerate the current user's recovery codes; all previous codes stop working.
+ * This is the only way to see codes after enrollment, so it needs a recent re-auth.
+ */
+export const regenerateRecoveryCodes = requireRecentAuth(SENSITIVE_ACTION_MAX_AGE_SECONDS)(async (): Promise<
+  ServerResult<{ codes: string[] }>
+> => {
+  try {
+    const current = await getCurrentUser();
+    if (!current.success || !current.data) return { success: false, error: "Not signed in" };
+
+    const policyError = await enforceActionPolicy("/settings/recovery-codes");
+    if (policyError) return { success: false, error: policyError };
+
+    const codes = await issueRecoveryCodes(current.data);
+    return { success: true, data: { codes } };
+  } catch (error) {
+    console.error("Failed to regenerate recovery codes", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to regenerate recovery codes" };
+  }
+});
+
+/**
+ * Sign in with a recovery code. The code is consumed, and the user is notified
+ * with the number of codes left. Returns a login ticket for createPasskeySession.
+ */
+export const verifyRecoveryCodeLogin = async ({
+  accountId,
+  code,
+}: {
+  accountId: string;
+  code: string;
+}): Promise<ServerResult<{ verified: boolean; loginTicket?: string; remaining: number }>> => {
+  try {
+    const limit = await limitVerification(accountId);
+    if (!limit.allowed) {
+      return { success: false, error: rateLimitMessage(limit.retryAfterSeconds), retryAfterSeconds: limit.retryAfterSeconds };
+    }
+
+    const user = await getRepositories().users.findByAccountId(accountId);
+    const hashes: string[] = user?.recoveryCodes ?? [];
+    if (!user || hashes.length === 0) {
+      if (isUniformResponseMode()) {
+        // Don't reveal whether the account exists or has codes; fail like a wrong code
+        const lockout = await recordVerificationFailure(accountId);
+        return lockout.allowed
+          ? { success: false, error: "Invalid recovery code." }
+          : { success: false, error: rateLimitMessage(lockout.retryAfterSeconds), retryAfterSeconds: lockout.retryAfterSeconds };
+      }
+      return { success: false, error: "No recovery codes are available for this account" };
+    }
+
+    const remaining = await consumeRecoveryCode(accountId, code);
+    if (remaining === null) {
+      const lockout = await recordVerificationFailure(accountId);
+      await logAuditEvent({ type: "recovery-code.failed", accountId, method: "recovery", outcome: "failure" });
+      if (!lockout.allowed) {
+        return { success: false, error: rateLimitMessage(lockout.retryAfterSeconds), retryAfterSeconds: lockout.retryAfterSeconds };
+      }
+      return { success: false, error: "Invalid recovery code." };
+    }
+
+    await clearVerificationFailures(accountId);
+    await logAuditEvent({
+      type: "recovery-code.used",
+      accountId,
+      method: "recovery",
+      detail: `${remaining} left`,
+    });
+    await notifyUser({ accountId: user.accountId, template: "recovery-code-used", data: { remaining } });
+
+    const loginTicket = issueLoginTicket({ accountId: user.accountId, amr: ["recovery"] });
+
+    return { success: true, data: { verified: true, loginTicket, remaining } };
+  } catch (error) {
+    console.error("Failed to verify recovery code", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to verify recovery code" };
+  }
+};
@@ -0,0 +1,165 @@
+"use server";
+
+import QRCode from "qrcode";
+import { getCurrentUser, type ServerResult } from "@/lib/actions/auth.actions";
+import { decryptSecret, encryptSecret } from "@/lib/auth/secret-box";
+import { issueLoginTicket } from "@/lib/auth/session-token";
+import {
+  clearVerificationFailures,
+  limitVerification,
+  rateLimitMessage,
+  recordVerificationFailure,
+} from "@/lib/auth/rate-limit";
+import { isUniformResponseMode } from "@/lib/auth/enumeration-guard";
+import { logAuditEvent } from "@/lib/auth/audit-log";
+import { enforceActionPolicy } from "@/lib/auth/session-policy";
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from "@/lib/auth/totp";
+import { getRepositories } from "@/lib/repositories";
+
+/**
+ * Start authenticator-app enrollment: generate a secret, keep it (encrypted) as pending
+ * until the user proves their app produces valid codes.
+ */
+export const startTotpEnrollment = async (): Promise<
+  ServerResult<{ otpauthUri: string; qrCodeDataUrl: string; secret: string }>
+> => {
+  try {
+    const current = await getCurrentUser();
+    if (!current.success || !current.data) return { success: false, error: "Not signed in" };
+    const user = current.data;
+
+    const policyError = await enforceActionPolicy("/settings/authenticator");
+    if (policyError) return { success: false, error: policyError };
+
+    const secret = generateTotpSecret();
+    const otpauthUri = buildOtpauthUri({ secret, accountName: user.email });
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 220 });
+
+    await getRepositories().users.update(user.$id, { totpPendingSecret: encryptSecret(secret) });
+
+    return { success: true, data: { otpauthUri, qrCodeDataUrl, secret } };
+  } catch (error) {
+    console.error("Failed to start TOTP enrollment", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to start TOTP enrollment" };
+  }
+};
+
+/**
+ * Finish enrollment — only saves the secret once the first code verifies
+ */
+export const confirmTotpEnrollment = async ({
+  code,
+}: {
+  code: string;
+}): Promise<ServerResult<{ enabled: boolean }>> => {
+  try {
+    const current = await getCurrentUser();
+    if (!current.success || !current.data) return { success: false, error: "Not signed in" };
+    const user = current.data;
+
+    const policyError = await enforceActionPolicy("/settings/authenticator");
+    if (policyError) return { success: false, error: policyError };
+
+    if (!user.totpPendingSecret) {
+      return { success: false, error: "No authenticator enrollment in progress" };
+    }
+
+    const secret = decryptSecret(user.totpPendingSecret);
+    const matchedStep = verifyTotp({ secret, code });
+    if (matchedStep === null) {
+      return { success: false, error: "Invalid code. Check your authenticator app and try again." };
+    }
+
+    await getRepositories().users.update(user.$id, {
+      totpSecret: user.totpPendingSecret,
+      totpPendingSecret: null,
+      totpEnabled: true,
+      totpLastUsedStep: matchedStep,
+    });
+
+    return { success: true, data: { enabled: true } };
+  } catch (error) {
+    console.error("Failed to confirm TOTP enrollment", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to confirm TOTP enrollment" };
+  }
+};
+
+/**
+ * Verify an authenticator-app code at sign-in.
+ * Returns a login ticket to exchange for a session through createPasskeySession.
+ */
+export const verifyTotpLogin = async ({
+  accountId,
+  code,
+}: {
+  accountId: string;
+  code: string;
+}): Promise<ServerResult<{ verified: boolean; loginTicket?: string }>> => {
+  try {
+    const limit = await limitVerification(accountId);
+    if (!limit.allowed) {
+      return { success: false, error: rateLimitMessage(limit.retryAfterSeconds), retryAfterSeconds: limit.retryAfterSeconds };
+    }
+
+    const user = await getRepositories().users.findByAccountId(accountId);
+    if (!user || !user.totpEnabled || !user.totpSecret) {
+      if (isUniformResponseMode()) {
+        // Don't reveal whether the account exists or has TOTP; fail like a wrong code
+        const lockout = await recordVerificationFailure(accountId);
+        return lockout.allowed
+          ? { success: false, error: "Invalid code. Check your authenticator app and try again." }
+          : { success: false, error: rateLimitMessage(lockout.retryAfterSeconds), retryAfterSeconds: lockout.retryAfterSeconds };
+      }
+      return { success: false, error: "Authenticator app is not set up for this account" };
+    }
+
+    const secret = decryptSecret(user.totpSecret);
+    const matchedStep = verifyTotp({
+      secret,
+      code,
+      lastUsedStep: user.totpLastUsedStep ?? null,
+    });
+
+    if (matchedStep === null) {
+      const lockout = await recordVerificationFailure(accountId);
+      await logAuditEvent({ type: "totp.failed", accountId, method: "totp", outcome: "failure" });
+      if (!lockout.allowed) {
+        return { success: false, error: rateLimitMessage(lockout.retryAfterSeconds), retryAfterSeconds: lockout.retryAfterSeconds };
+      }
+
+      // A code that is valid but at/before the last used step is a replay
+      const replayed = verifyTotp({ secret, code }) !== null;
+      return {
+        success: false,
+        error: replayed
+          ? "This code was already used. Wait for the next one."
+          : "Invalid code. Check your authenticator app and try again.",
+      };
+    }
+
+    // Only one of two requests with the same code gets to move the step forward
+    const stored = await getRepositories().users.updateIf(
+      user.$id,
+      { totpSecret: user.totpSecret, totpLastUsedStep: user.totpLastUsedStep },
+      { totpLastUsedStep: matchedStep }
+    );
+    if (!stored) {
+      await logAuditEvent({ type: "totp.failed", accountId, method: "totp", outcome: "failure", detail: "Replayed" });
+      return { success: false, error: "This code was already used. Wait for the next one." };
+    }
+
+    await clearVerificationFailures(accountId);
+    await logAuditEvent({ type: "totp.verified", accountId, method: "totp" });
+
+    const loginTicket = issueLoginTicket({ accountId: user.accountId, amr: ["totp"] });
+
+    return { success: true, data: { verified: true, loginTicket } };
+  } catch (error) {
+    console.error("Failed to verify TOTP code", error);
+    return { success: false, error: (error instanceof Error && error.message) || "Failed to verify TOTP code" };
+  }
+};
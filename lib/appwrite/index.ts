@@ -1,13 +1,13 @@
 "use server";
 
-import { Account, Avatars, Client, Databases, Storage } from "node-appwrite";
-import { appwriteConfig } from "@/lib/appwrite/config";
+import { Account, Avatars, Client, Databases, Messaging, Storage, Users } from "node-appwrite";
+import { getConfig } from "@/lib/config";
 import { cookies } from "next/headers";
+import { verifySessionToken, type SessionClaims } from "@/lib/auth/session-token";
 
 export const createSessionClient = async () => {
-  const client = new Client()
-    .setEndpoint(appwriteConfig.endpointUrl)
-    .setProject(appwriteConfig.projectId);
+  const { endpointUrl, projectId } = getConfig().appwrite;
+  const client = new Client().setEndpoint(endpointUrl).setProject(projectId);
 
   const session = (await cookies()).get("appwrite-session");
 
@@ -26,10 +26,8 @@ export const createSessionClient = async () => {
 };
 
 export const createAdminClient = async () => {
-  const client = new Client()
-    .setEndpoint(appwriteConfig.endpointUrl)
-    .setProject(appwriteConfig.projectId)
-    .setKey(appwriteConfig.secretKey);
+  const { endpointUrl, projectId, secretKey } = getConfig().appwrite;
+  const client = new Client().setEndpoint(endpointUrl).setProject(projectId).setKey(secretKey);
 
   return {
     get account() {
@@ -44,15 +42,26 @@ export const createAdminClient = async () => {
     get avatars() {
       return new Avatars(client);
     },
+    get users() {
+      return new Users(client);
+    },
+    get messaging() {
+      return new Messaging(client);
+    },
   };
 };
 
-export const getCustomPasskeySessionAccountId = async (): Promise<string | null> => {
+/**
+ * Read and verify the signed passkey session cookie. Returns null when the cookie is
+ * missing, tampered with, signed by an unknown key or expired.
+ */
+export const getCustomPasskeySession = async (): Promise<SessionClaims | null> => {
   const session = (await cookies()).get("app-session");
   if (!session || !session.value) return null;
-  return session.value;
+  return verifySessionToken(session.value);
 };
 
-
-
-
+export const getCustomPasskeySessionAccountId = async (): Promise<string | null> => {
+  const claims = await getCustomPasskeySession();
+  return claims ? claims.sub : null;
+};
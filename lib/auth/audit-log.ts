@@ -0,0 +1,67 @@
+// lib/auth/audit-log.ts
+import { getRequestContext } from "@/lib/auth/request-context";
+import type { AuthMethod } from "@/lib/auth/session-token";
+import { getRepositories, type AuditEvent } from "@/lib/repositories";
+
+/**
+ * Append-only security audit log. Events are only ever created — nothing in the app
+ * updates or deletes them, and the collection should grant no update/delete permissions.
+ */
+
+export type AuditEventType =
+  | "otp.sent"
+  | "otp.verified"
+  | "otp.failed"
+  | "magic-link.sent"
+  | "magic-link.confirmed"
+  | "totp.verified"
+  | "totp.failed"
+  | "recovery-code.used"
+  | "recovery-code.failed"
+  | "passkey.registered"
+  | "passkey.used"
+  | "passkey.failed"
+  | "passkey.deleted"
+  | "passkey.clone-suspected"
+  | "risk.step-up"
+  | "risk.denied"
+  | "session.created"
+  | "session.stepped-up"
+  | "session.revoked"
+  | "email.changed"
+  | "sign-out";
+
+export type AuditOutcome = "success" | "failure";
+
+export type { AuditEvent };
+
+/**
+ * Record an auth event with the current request's IP and user agent.
+ * Never throws — failing to audit must not fail the action being audited.
+ */
+export const logAuditEvent = async ({
+  type,
+  accountId,
+  method = null,
+  outcome = "success",
+  detail = null,
+}: {
+  type: AuditEventType;
+  accountId: string | null;
+  method?: AuthMethod | null;
+  outcome?: AuditOutcome;
+  detail?: string | null;
+}) => {
+  try {
+    const { ipAddress, userAgent } = await getRequestContext();
+    await getRepositories().auditLog.append({ type, accountId, method, outcome, ipAddress, userAgent, detail });
+  } catch (error) {
+    console.error(`Failed to write audit event ${type}`, error);
+  }
+};
+
+/**
+ * Most recent events for one account, newest first
+ */
+export const listAuditEvents = (accountId: string, limit = 50): Promise<AuditEvent[]> =>
+  getRepositories().auditLog.listByAccountId(accountId, limit);
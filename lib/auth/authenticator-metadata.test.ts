@@ -0,0 +1,111 @@
+// lib/auth/authenticator-metadata.test.ts
+// @vitest-environment node
+// (WebCrypto, which checks the certificate chain, rejects jsdom's typed arrays)
+import { sign, X509Certificate } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SettingsService, type MDSJWTPayload } from "@simplewebauthn/server";
+import { checkAuthenticatorPolicy, verifySnapshot } from "@/lib/auth/authenticator-metadata";
+import { TEST_MDS_ROOT_PEM, TEST_MDS_SIGNER_KEY_PEM, TEST_MDS_SIGNER_PEM } from "@/tests/fixtures/mds-chain";
+
+const ALLOWED = "cb69481e-8ff7-4039-93ec-0a2729a154a8";
+const ALSO_ALLOWED = "ee882879-721c-4913-9775-3dfcce97072a";
+const DENIED = "fa2b99dc-9e39-4257-8f92-4a30d23c4118";
+
+const settings = vi.hoisted(() => ({ env: {} as Record<string, string> }));
+
+// Direct mode with the given lists; the snapshot itself isn't read here
+vi.mock("@/lib/config", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/config")>();
+  return {
+    ...actual,
+    getConfig: () =>
+      actual.loadConfig({
+        ...process.env,
+        WEBAUTHN_ATTESTATION: "direct",
+        WEBAUTHN_MDS_PATH: "/dev/null",
+        ...settings.env,
+      }),
+  };
+});
+
+const PAYLOAD = {
+  legalHeader: "Test snapshot",
+  no: 1,
+  nextUpdate: "2099-01-01",
+  entries: [{ aaguid: ALLOWED, statusReports: [], timeOfLastStatusChange: "2026-01-01" }],
+} as unknown as MDSJWTPayload;
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/** A BLOB as the MDS serves it, signed by the test chain */
+const signBlob = ({ header = {}, payload = PAYLOAD }: { header?: object; payload?: object } = {}) => {
+  const signerDer = new X509Certificate(TEST_MDS_SIGNER_PEM).raw.toString("base64");
+  const signingInput = `${encode({ alg: "ES256", typ: "JWT", x5c: [signerDer], ...header })}.${encode(payload)}`;
+  const signature = sign("sha256", Buffer.from(signingInput), { key: TEST_MDS_SIGNER_KEY_PEM, dsaEncoding: "ieee-p1363" });
+  return `${signingInput}.${signature.toString("base64url")}`;
+};
+
+describe("verifySnapshot", () => {
+  const defaultRoots = SettingsService.getRootCertificates({ identifier: "mds" });
+
+  beforeEach(() => {
+    SettingsService.setRootCertificates({ identifier: "mds", certificates: [TEST_MDS_ROOT_PEM] });
+  });
+
+  afterEach(() => {
+    SettingsService.setRootCertificates({ identifier: "mds", certificates: defaultRoots });
+  });
+
+  it("returns the payload of a BLOB signed under the MDS root", async () => {
+    expect(await verifySnapshot(`${signBlob()}\n`)).toEqual(PAYLOAD);
+  });
+
+  it("rejects a BLOB without an x5c chain", async () => {
+    await expect(verifySnapshot(signBlob({ header: { x5c: undefined } }))).rejects.toThrow(/no x5c/);
+    await expect(verifySnapshot(signBlob({ header: { x5c: [] } }))).rejects.toThrow(/no x5c/);
+  });
+
+  it("rejects a chain that doesn't lead to the MDS root", async () => {
+    SettingsService.setRootCertificates({ identifier: "mds", certificates: defaultRoots });
+
+    await expect(verifySnapshot(signBlob())).rejects.toThrow(/issuer/);
+  });
+
+  it("rejects a BLOB whose payload was changed after signing", async () => {
+    const [header, , signature] = signBlob().split(".");
+    const tampered = encode({ ...PAYLOAD, entries: [] });
+
+    await expect(verifySnapshot(`${header}.${tampered}.${signature}`)).rejects.toThrow(/signature is invalid/);
+  });
+
+  it("rejects unsigned snapshots and unsupported algorithms", async () => {
+    await expect(verifySnapshot(JSON.stringify(PAYLOAD))).rejects.toThrow(/not a signed BLOB/);
+    await expect(verifySnapshot(signBlob({ header: { alg: "none" } }))).rejects.toThrow(/unsupported algorithm/);
+  });
+});
+
+describe("checkAuthenticatorPolicy", () => {
+  it.each([
+    [ALLOWED, null],
+    [ALLOWED.toUpperCase(), null],
+    [ALSO_ALLOWED, null],
+    [DENIED, "This security key model is not on the approved list"],
+  ])("with an allowlist, for %s returns %j", (aaguid, reason) => {
+    settings.env = { WEBAUTHN_AAGUID_ALLOWLIST: `${ALLOWED},${ALSO_ALLOWED.toUpperCase()}` };
+    expect(checkAuthenticatorPolicy(aaguid)).toBe(reason);
+  });
+
+  it.each([
+    [ALLOWED, null],
+    [DENIED, "This security key model is not allowed"],
+    [DENIED.toUpperCase(), "This security key model is not allowed"],
+  ])("with a denylist, for %s returns %j", (aaguid, reason) => {
+    settings.env = { WEBAUTHN_AAGUID_DENYLIST: DENIED };
+    expect(checkAuthenticatorPolicy(aaguid)).toBe(reason);
+  });
+
+  it("accepts every model without lists", () => {
+    settings.env = {};
+    expect(checkAuthenticatorPolicy(DENIED)).toBeNull();
+  });
+});
@@ -0,0 +1,129 @@
+// lib/auth/authenticator-metadata.ts
+import { verify, X509Certificate } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import {
+  MetadataService,
+  SettingsService,
+  type AuthenticatorStatus,
+  type MDSJWTPayload,
+  type MetadataStatement,
+} from "@simplewebauthn/server";
+import { convertCertBufferToPEM, validateCertificatePath } from "@simplewebauthn/server/helpers";
+import { getConfig } from "@/lib/config";
+
+/**
+ * Authenticator models from a locally bundled FIDO Metadata Service (MDS3) snapshot at
+ * WEBAUTHN_MDS_PATH: the BLOB as downloaded from https://mds3.fidoalliance.org/. Never
+ * fetched at runtime; refresh it by replacing the file. The BLOB is only trusted once its
+ * certificate chain leads to the FIDO MDS root and its signature checks out.
+ *
+ * Loading it hands the statements to @simplewebauthn's MetadataService in strict mode, so
+ * verifyRegistrationResponse checks attestation chains against the statements' root
+ * certificates and rejects AAGUIDs the snapshot doesn't know.
+ */
+
+/** Status reports that make an authenticator model untrustworthy */
+const COMPROMISED_STATUSES: AuthenticatorStatus[] = [
+  "REVOKED",
+  "USER_VERIFICATION_BYPASS",
+  "ATTESTATION_KEY_COMPROMISE",
+  "USER_KEY_REMOTE_COMPROMISE",
+  "USER_KEY_PHYSICAL_COMPROMISE",
+];
+
+/** JWS algorithms a BLOB may be signed with, as node:crypto verify options */
+const BLOB_ALGORITHMS: Record<string, { hash: string; dsaEncoding?: "ieee-p1363" }> = {
+  RS256: { hash: "sha256" },
+  ES256: { hash: "sha256", dsaEncoding: "ieee-p1363" },
+};
+
+const decodeSegment = <T>(segment: string): T => JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+
+/**
+ * The payload of a BLOB (a JWT) signed by the FIDO Alliance: the x5c chain in its header
+ * must lead to the "mds" root of SettingsService (GlobalSign Root CA - R3 unless replaced),
+ * and the leaf certificate must have signed the JWT.
+ */
+export const verifySnapshot = async (contents: string): Promise<MDSJWTPayload> => {
+  const [header, payload, signature] = contents.trim().split(".");
+  if (!header || !payload || !signature) throw new Error("FIDO MDS snapshot is not a signed BLOB");
+
+  const { alg, x5c } = decodeSegment<{ alg?: string; x5c?: string[] }>(header);
+  if (!Array.isArray(x5c) || x5c.length === 0) throw new Error("FIDO MDS snapshot has no x5c certificate chain");
+  const algorithm = alg ? BLOB_ALGORITHMS[alg] : undefined;
+  if (!algorithm) throw new Error(`FIDO MDS snapshot is signed with unsupported algorithm ${alg}`);
+
+  // validateCertificatePath accepts any chain when it has no roots to check against
+  const roots = SettingsService.getRootCertificates({ identifier: "mds" });
+  if (roots.length === 0) throw new Error("No FIDO MDS root certificate is configured");
+  const chain = x5c.map((certificate) => convertCertBufferToPEM(Buffer.from(certificate, "base64")));
+  await validateCertificatePath(chain, roots);
+
+  const signed = verify(
+    algorithm.hash,
+    Buffer.from(`${header}.${payload}`),
+    { key: new X509Certificate(chain[0]).publicKey, dsaEncoding: algorithm.dsaEncoding },
+    Buffer.from(signature, "base64url")
+  );
+  if (!signed) throw new Error("FIDO MDS snapshot signature is invalid");
+
+  const decoded = decodeSegment<MDSJWTPayload>(payload);
+  if (!Array.isArray(decoded.entries)) throw new Error("FIDO MDS snapshot has no entries");
+  return decoded;
+};
+
+let statementsPromise: Promise<Map<string, MetadataStatement>> | null = null;
+
+/**
+ * FIDO2 statements of the snapshot by AAGUID, minus models with a compromised status.
+ * Loaded once; a missing or unreadable snapshot fails every call, since direct mode
+ * must not quietly accept unverified authenticators.
+ */
+const loadStatements = () => {
+  statementsPromise ??= (async () => {
+    const path = getConfig().webauthn.attestation.mdsPath;
+    if (!path) throw new Error("WEBAUTHN_MDS_PATH is not set");
+
+    const payload = await verifySnapshot(await readFile(path, "utf8"));
+    const statements = new Map<string, MetadataStatement>();
+    for (const entry of payload.entries) {
+      if (!entry.aaguid || !entry.metadataStatement) continue;
+      if (entry.statusReports.some((report) => COMPROMISED_STATUSES.includes(report.status))) continue;
+      statements.set(entry.aaguid.toLowerCase(), entry.metadataStatement);
+    }
+
+    await MetadataService.initialize({
+      mdsServers: [],
+      statements: Array.from(statements.values()),
+      verificationMode: "strict",
+    });
+    return statements;
+  })().catch((error) => {
+    statementsPromise = null;
+    console.error("Failed to load FIDO MDS snapshot", error);
+    throw error;
+  });
+  return statementsPromise;
+};
+
+/** Load the snapshot before the first attestation is verified */
+export const ensureAuthenticatorMetadata = async () => {
+  await loadStatements();
+};
+
+/** The model's marketing name (e.g. "YubiKey 5 Series with NFC"), null for unknown AAGUIDs */
+export const getAuthenticatorModel = async (aaguid: string): Promise<string | null> =>
+  (await loadStatements()).get(aaguid.toLowerCase())?.description ?? null;
+
+/**
+ * Apply WEBAUTHN_AAGUID_ALLOWLIST / WEBAUTHN_AAGUID_DENYLIST. Returns the reason a model
+ * is refused, or null when it may be registered.
+ */
+export const checkAuthenticatorPolicy = (aaguid: string): string | null => {
+  const { allowedAaguids, deniedAaguids } = getConfig().webauthn.attestation;
+  const id = aaguid.toLowerCase();
+
+  if (deniedAaguids.includes(id)) return "This security key model is not allowed";
+  if (allowedAaguids && !allowedAaguids.includes(id)) return "This security key model is not on the approved list";
+  return null;
+};
@@ -0,0 +1,126 @@
+// lib/auth/credential-store.ts
+import type { AuthenticatorTransportFuture, CredentialDeviceType } from "@simplewebauthn/server";
+import { getRepositories, type CredentialRecord, type UserRecord } from "@/lib/repositories";
+
+export type { CredentialRecord };
+
+export const createCredentialRecord = async ({
+  credentialId,
+  accountId,
+  userHandle = null,
+  name,
+  deviceType,
+  backedUp = false,
+  publicKey,
+  counter,
+  transports = [],
+  aaguid,
+  authenticatorModel = null,
+}: {
+  credentialId: string;
+  accountId: string;
+  userHandle?: string | null;
+  name: string;
+  deviceType: CredentialDeviceType;
+  backedUp?: boolean;
+  publicKey: string;
+  counter: number;
+  transports?: AuthenticatorTransportFuture[];
+  aaguid: string;
+  authenticatorModel?: string | null;
+}): Promise<CredentialRecord> =>
+  getRepositories().credentials.create({
+    credentialId,
+    accountId,
+    userHandle,
+    name,
+    deviceType,
+    backupEligible: deviceType === "multiDevice",
+    backedUp,
+    publicKey,
+    counter,
+    transports,
+    aaguid,
+    authenticatorModel,
+    lastUsedAt: null,
+    cloneSuspectedAt: null,
+  });
+
+export const listCredentialRecords = (accountId: string): Promise<CredentialRecord[]> =>
+  getRepositories().credentials.listByAccountId(accountId);
+
+export const getCredentialRecord = (credentialId: string): Promise<CredentialRecord | null> =>
+  getRepositories().credentials.findByCredentialId(credentialId);
+
+/**
+ * Persist the authenticator's new signature counter and backup state after a successful assertion
+ */
+export const markCredentialUsed = async (
+  record: CredentialRecord,
+  { counter, backedUp }: { counter: number; backedUp: boolean }
+): Promise<CredentialRecord> => {
+  const changes = { counter, backedUp, lastUsedAt: new Date().toISOString() };
+  await getRepositories().credentials.update(record.$id, changes);
+  return { ...record, ...changes };
+};
+
+/**
+ * Mark a credential as possibly cloned. The first sighting is kept, so the flag dates
+ * back to when the problem was first noticed.
+ */
+export const flagCredentialCloned = async (record: CredentialRecord): Promise<CredentialRecord> => {
+  if (record.cloneSuspectedAt) return record;
+  const cloneSuspectedAt = new Date().toISOString();
+  await getRepositories().credentials.update(record.$id, { cloneSuspectedAt });
+  return { ...record, cloneSuspectedAt };
+};
+
+export const renameCredentialRecord = async (record: CredentialRecord, name: string) => {
+  await getRepositories().credentials.update(record.$id, { name });
+};
+
+export const deleteCredentialRecord = async (record: CredentialRecord) => {
+  await getRepositories().credentials.delete(record.$id);
+};
+
+/**
+ * Move a credential still stored on the user document (single-credential schema)
+ * into the credentials collection. No-op when there is nothing to migrate.
+ */
+export const migrateLegacyCredential = async (user: UserRecord) => {
+  if (!user.credentialID || !user.credentialPublicKey) return;
+
+  const existing = await getCredentialRecord(user.credentialID);
+  if (!existing) {
+    await createCredentialRecord({
+      credentialId: user.credentialID,
+      accountId: user.accountId,
+      name: "Passkey",
+      deviceType: "singleDevice",
+      publicKey: user.credentialPublicKey,
+      counter: user.counter ?? 0,
+      aaguid: "00000000-0000-0000-0000-000000000000",
+    });
+  }
+
+  await getRepositories().users.update(user.$id, {
+    credentialID: null,
+    credentialPublicKey: null,
+    counter: null,
+  });
+};
+
+/**
+ * Keep the denormalised hasPasskey / passKeyCount flags on the user document
+ * in line with the credentials collection.
+ */
+export const syncUserPasskeyFlags = async (user: UserRecord) => {
+  const credentials = await listCredentialRecords(user.accountId);
+
+  await getRepositories().users.update(user.$id, {
+    hasPasskey: credentials.length > 0,
+    passKeyCount: credentials.length,
+  });
+
+  return credentials.length;
+};
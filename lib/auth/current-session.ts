@@ -0,0 +1,22 @@
+// lib/auth/current-session.ts
+import { cookies } from "next/headers";
+import { getCustomPasskeySession } from "@/lib/appwrite/index";
+import { getActiveSessionRecord, type SessionRecord } from "@/lib/auth/session-store";
+
+/**
+ * Resolve the session behind the current request's cookies.
+ * Only sessions with an active server-side record count — this is what makes revocation immediate.
+ */
+export const resolveCurrentSession = async (): Promise<SessionRecord | null> => {
+  // 1) Signed custom passkey session
+  const claims = await getCustomPasskeySession();
+  if (claims) {
+    const record = await getActiveSessionRecord(claims.sid);
+    return record && record.accountId === claims.sub ? record : null;
+  }
+
+  // 2) Appwrite OTP session
+  const appwriteSession = (await cookies()).get("appwrite-session");
+  if (!appwriteSession?.value) return null;
+  return getActiveSessionRecord(appwriteSession.value);
+};
@@ -0,0 +1,43 @@
+// lib/auth/enumeration-guard.ts
+import { createHmac } from "crypto";
+import { sendMail } from "@/lib/mail";
+import { getConfig } from "@/lib/config";
+
+/**
+ * Account-enumeration protection for sign-in and sign-up.
+ *
+ * With AUTH_UNIFORM_RESPONSES=true, every email gets the same response shape and roughly
+ * the same response time: unknown addresses get a stable decoy accountId (so the
+ * verification modal opens as usual) and an email saying there is no account, instead of a code.
+ */
+
+const RESPONSE_JITTER_MS = 150;
+
+export const isUniformResponseMode = () => getConfig().auth.uniformResponses;
+
+/**
+ * Decoy accountId for an unknown email. Deterministic, so asking twice gives the same
+ * answer, and keyed with the active signing key, so it can't be told apart from a real Appwrite ID (20 hex chars).
+ */
+export const decoyAccountId = (email: string): string =>
+  createHmac("sha256", getConfig().session.signingKeys[0].secret)
+    .update(`decoy-account:${email.trim().toLowerCase()}`)
+    .digest("hex")
+    .slice(0, 20);
+
+/**
+ * Wait until at least AUTH_MIN_RESPONSE_MS have passed since startedAt, so the branches
+ * for known and unknown emails take the same time from the outside.
+ */
+export const padResponseTime = async (startedAt: number) => {
+  const target = getConfig().auth.minResponseMs + Math.random() * RESPONSE_JITTER_MS;
+  const remaining = target - (Date.now() - startedAt);
+  if (remaining > 0) await new Promise((resolve) => setTimeout(resolve, remaining));
+};
+
+/**
+ * Tell the owner of an unregistered address that someone tried to sign in with it
+ */
+export const sendNoAccountEmail = async (email: string) => {
+  await sendMail({ to: email, template: "no-account", data: {} });
+};
@@ -0,0 +1,39 @@
+// lib/auth/geoip.ts
+import maxmind, { type CityResponse, type Reader } from "maxmind";
+import type { GeoPoint } from "@/lib/auth/risk-engine";
+import { getConfig } from "@/lib/config";
+
+/**
+ * Offline IP geolocation from a MaxMind-format city database (e.g. GeoLite2-City.mmdb)
+ * at GEOIP_DATABASE_PATH. No network lookups; without the file every lookup returns null
+ * and location-based risk signals simply don't fire.
+ */
+
+let readerPromise: Promise<Reader<CityResponse> | null> | null = null;
+
+const getReader = () => {
+  if (!readerPromise) {
+    const path = getConfig().geoipDatabasePath;
+    readerPromise = path
+      ? maxmind.open<CityResponse>(path).catch((error) => {
+          console.error("Failed to open GeoIP database", error);
+          return null;
+        })
+      : Promise.resolve(null);
+  }
+  return readerPromise;
+};
+
+export const lookupGeo = async (ipAddress: string): Promise<GeoPoint | null> => {
+  if (!maxmind.validate(ipAddress)) return null;
+
+  const reader = await getReader();
+  const location = reader?.get(ipAddress);
+  if (!location?.location) return null;
+
+  return {
+    latitude: location.location.latitude,
+    longitude: location.location.longitude,
+    country: location.country?.iso_code ?? null,
+  };
+};
@@ -0,0 +1,102 @@
+// lib/auth/magic-link.ts
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import { describeDevice, getRequestContext } from "@/lib/auth/request-context";
+import { issueMagicLinkState, MAGIC_LINK_TTL_SECONDS, verifyMagicLinkState } from "@/lib/auth/session-token";
+import { getConfig } from "@/lib/config";
+
+/**
+ * Emailed sign-in links (AUTH_MAGIC_LINKS=true), an alternative to typing the emailed code.
+ *
+ * The link points at /verify with a signed state token, the account's userId and a
+ * single-use secret from the account store, which /verify exchanges through verifySecret
+ * like a code. The browser that asked for the link keeps a random nonce in an httpOnly
+ * cookie and the state carries its hash, so /verify can tell whether it was opened in
+ * that browser. Anywhere else, the user has to confirm before it signs in.
+ */
+
+const BINDING_COOKIE = "magic-link-binding";
+const VERIFY_PATH = "/verify";
+
+export interface MagicLink {
+  redirectTo: string;
+  /** Opened in the browser that asked for it */
+  sameBrowser: boolean;
+  /** "Browser on OS" that asked for it */
+  requestedFrom: string;
+  requestedAt: string;
+}
+
+export const isMagicLinkEnabled = () => getConfig().auth.magicLinks;
+
+const hashNonce = (nonce: string) => createHash("sha256").update(nonce).digest("base64url");
+
+/**
+ * Bind a new link for accountId to the current browser and return its URL, still without
+ * userId and secret. Links are built on the first WEBAUTHN_ORIGINS entry, never on the
+ * request's Host header.
+ */
+export const createMagicLinkUrl = async ({
+  accountId,
+  redirectTo,
+}: {
+  accountId: string;
+  redirectTo: string;
+}): Promise<string> => {
+  const nonce = randomBytes(32).toString("base64url");
+  const { userAgent } = await getRequestContext();
+
+  // Lax, not strict: the link is opened by a navigation from the mail client
+  cookies().set(BINDING_COOKIE, nonce, {
+    path: VERIFY_PATH,
+    httpOnly: true,
+    sameSite: "lax",
+    secure: true,
+    maxAge: MAGIC_LINK_TTL_SECONDS,
+  });
+
+  const url = new URL(VERIFY_PATH, getConfig().webauthn.origins[0]);
+  url.searchParams.set(
+    "state",
+    issueMagicLinkState({
+      accountId,
+      bindingHash: hashNonce(nonce),
+      redirectTo,
+      device: describeDevice(userAgent),
+    })
+  );
+  return url.toString();
+};
+
+/**
+ * Check a link's state against the account it was opened for and this browser's binding.
+ * Null when the state is forged, expired or for another account.
+ */
+export const readMagicLink = async ({
+  accountId,
+  state,
+}: {
+  accountId: string;
+  state: string;
+}): Promise<MagicLink | null> => {
+  const claims = verifyMagicLinkState(state);
+  if (!claims || claims.sub !== accountId) return null;
+
+  const nonce = (await cookies()).get(BINDING_COOKIE)?.value;
+  const expected = Buffer.from(claims.bnd, "base64url");
+  const actual = nonce ? Buffer.from(hashNonce(nonce), "base64url") : Buffer.alloc(0);
+
+  return {
+    redirectTo: claims.rdr,
+    sameBrowser: actual.length === expected.length && timingSafeEqual(actual, expected),
+    requestedFrom: claims.dev,
+    requestedAt: new Date(claims.iat * 1000).toISOString(),
+  };
+};
+
+/**
+ * Forget this browser's binding once its link has signed in
+ */
+export const clearMagicLinkBinding = () => {
+  cookies().set(BINDING_COOKIE, "", { path: VERIFY_PATH, httpOnly: true, secure: true, maxAge: 0 });
+};
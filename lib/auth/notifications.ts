@@ -0,0 +1,25 @@
+// lib/auth/notifications.ts
+import { sendMail, type MailTemplateName, type MailTemplates } from "@/lib/mail";
+import { getRepositories } from "@/lib/repositories";
+
+/**
+ * Best-effort security notification to a user's email, rendered from a mail template.
+ * Never throws — a failed notification must not fail the sign-in that triggered it.
+ */
+export const notifyUser = async <T extends MailTemplateName>({
+  accountId,
+  template,
+  data,
+}: {
+  accountId: string;
+  template: T;
+  data: MailTemplates[T];
+}) => {
+  try {
+    const user = await getRepositories().users.findByAccountId(accountId);
+    if (!user) return;
+    await sendMail({ to: user.email, template, data });
+  } catch (error) {
+    console.error("Failed to send security notification", error);
+  }
+};
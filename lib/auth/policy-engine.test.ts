@@ -0,0 +1,99 @@
+// lib/auth/policy-engine.test.ts
+import { describe, expect, it } from "vitest";
+import { applicablePolicies, evaluatePolicies, type AuthPolicy, type PolicySubject } from "@/lib/auth/policy-engine";
+
+const subject = (overrides: Partial<PolicySubject> = {}): PolicySubject => ({
+  route: "/settings/passkeys",
+  accountId: "account-1",
+  groups: [],
+  amr: ["otp"],
+  sessionAgeSeconds: 60,
+  ...overrides,
+});
+
+const ids = (policies: AuthPolicy[]) => policies.map((policy) => policy.id);
+
+describe("applicablePolicies", () => {
+  it.each<[string, AuthPolicy, Partial<PolicySubject>, boolean]>([
+    ["no scope, any route", { id: "p" }, {}, true],
+    ["its exact route", { id: "p", routes: ["/settings"] }, { route: "/settings" }, true],
+    ["a route below its prefix", { id: "p", routes: ["/settings"] }, {}, true],
+    ["a prefix with a trailing slash", { id: "p", routes: ["/settings/"] }, {}, true],
+    ["a route that only shares characters", { id: "p", routes: ["/settings"] }, { route: "/settings-old" }, false],
+    ["another route", { id: "p", routes: ["/docs"] }, {}, false],
+    ["a member of its group", { id: "p", groups: ["admin"] }, { groups: ["staff", "admin"] }, true],
+    ["a non-member", { id: "p", groups: ["admin"] }, { groups: ["staff"] }, false],
+    ["a listed user", { id: "p", users: ["account-1"] }, {}, true],
+    ["a listed user outside its groups", { id: "p", groups: ["admin"], users: ["account-1"] }, {}, true],
+    ["an unlisted user", { id: "p", users: ["account-2"] }, {}, false],
+    ["a session with only the listed factors", { id: "p", whenOnly: ["otp"] }, {}, true],
+    ["a session with another factor too", { id: "p", whenOnly: ["otp"] }, { amr: ["otp", "totp"] }, false],
+  ])("applies with %s: %j", (_case, policy, overrides, applies) => {
+    expect(ids(applicablePolicies([policy], subject(overrides)))).toEqual(applies ? ["p"] : []);
+  });
+});
+
+describe("evaluatePolicies", () => {
+  it("allows when no policy applies or every one is met", () => {
+    expect(evaluatePolicies([], subject())).toEqual({ outcome: "allow" });
+    expect(evaluatePolicies([{ id: "docs", routes: ["/docs"], minFactors: 2 }], subject())).toEqual({
+      outcome: "allow",
+    });
+    expect(
+      evaluatePolicies([{ id: "2fa", minFactors: 2, maxSessionAgeSeconds: 3600 }], subject({ amr: ["otp", "totp"] }))
+    ).toEqual({ outcome: "allow" });
+  });
+
+  it("asks for one of the required factors", () => {
+    expect(evaluatePolicies([{ id: "passkey", requireAnyOf: ["passkey", "totp"] }], subject())).toEqual({
+      outcome: "step-up",
+      policyIds: ["passkey"],
+      requirement: { anyOf: ["passkey", "totp"], minFactors: 2 },
+    });
+  });
+
+  it("asks for as many factors as the strictest policy", () => {
+    expect(evaluatePolicies([{ id: "three", minFactors: 3 }], subject())).toEqual({
+      outcome: "step-up",
+      policyIds: ["three"],
+      requirement: { anyOf: [], minFactors: 3 },
+    });
+  });
+
+  it("combines every unmet policy into one requirement", () => {
+    const policies: AuthPolicy[] = [
+      { id: "passkey", requireAnyOf: ["passkey"] },
+      { id: "app", requireAnyOf: ["totp", "passkey"] },
+      { id: "two", minFactors: 2 },
+      { id: "met", requireAnyOf: ["otp"] },
+    ];
+
+    expect(evaluatePolicies(policies, subject())).toEqual({
+      outcome: "step-up",
+      policyIds: ["passkey", "app", "two"],
+      requirement: { anyOf: ["passkey", "totp"], minFactors: 2 },
+    });
+  });
+
+  it("expires a session past any applicable maximum age, even when a step-up is also due", () => {
+    const policies: AuthPolicy[] = [
+      { id: "passkey", requireAnyOf: ["passkey"] },
+      { id: "otp-1h", whenOnly: ["otp"], maxSessionAgeSeconds: 3600 },
+      { id: "docs-10m", routes: ["/docs"], maxSessionAgeSeconds: 600 },
+    ];
+
+    expect(evaluatePolicies(policies, subject({ sessionAgeSeconds: 3601 }))).toEqual({
+      outcome: "expired",
+      policyIds: ["otp-1h"],
+    });
+    expect(evaluatePolicies(policies, subject({ sessionAgeSeconds: 3600 }))).toMatchObject({ outcome: "step-up" });
+  });
+
+  it("ignores the age limit of a policy that doesn't apply to the session", () => {
+    const policies: AuthPolicy[] = [{ id: "otp-1h", whenOnly: ["otp"], maxSessionAgeSeconds: 3600 }];
+
+    expect(evaluatePolicies(policies, subject({ amr: ["passkey"], sessionAgeSeconds: 7200 }))).toEqual({
+      outcome: "allow",
+    });
+  });
+});
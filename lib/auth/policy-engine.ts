@@ -0,0 +1,112 @@
+// lib/auth/policy-engine.ts
+import type { AuthMethod } from "@/lib/auth/session-token";
+
+/**
+ * Authentication policies: which factors a session needs, for whom and where.
+ * Pure — lib/auth/session-policy.ts feeds it the current session, user and route.
+ *
+ * Examples:
+ *   { id: "docs-passkey", routes: ["/docs"], requireAnyOf: ["passkey"] }
+ *   { id: "admins-2fa", groups: ["admin"], minFactors: 2 }
+ *   { id: "otp-only-1h", whenOnly: ["otp"], maxSessionAgeSeconds: 3600 }
+ */
+export interface AuthPolicy {
+  id: string;
+  description?: string;
+  /** Route prefixes it applies to; every route when omitted */
+  routes?: string[];
+  /** Appwrite user labels it applies to; every user when omitted */
+  groups?: string[];
+  /** accountIds it applies to, in addition to groups */
+  users?: string[];
+  /** The session must have satisfied at least one of these factors */
+  requireAnyOf?: AuthMethod[];
+  /** The session must have satisfied at least this many distinct factors */
+  minFactors?: number;
+  /** Only applies to sessions whose factors are all in this list, e.g. ["otp"] */
+  whenOnly?: AuthMethod[];
+  /** Sessions this policy applies to expire after this long */
+  maxSessionAgeSeconds?: number;
+}
+
+export interface PolicySubject {
+  route: string;
+  accountId: string;
+  groups: string[];
+  /** Factors the session has satisfied */
+  amr: AuthMethod[];
+  sessionAgeSeconds: number;
+}
+
+/** What the session is missing */
+export interface FactorRequirement {
+  /** Any one of these would do; empty when any additional factor counts */
+  anyOf: AuthMethod[];
+  minFactors: number;
+}
+
+export type PolicyDecision =
+  | { outcome: "allow" }
+  | { outcome: "step-up"; policyIds: string[]; requirement: FactorRequirement }
+  | { outcome: "expired"; policyIds: string[] };
+
+const matchesRoute = (policy: AuthPolicy, route: string) =>
+  !policy.routes ||
+  policy.routes.some((prefix) => route === prefix || route.startsWith(`${prefix.replace(/\/$/, "")}/`));
+
+const matchesUser = (policy: AuthPolicy, subject: PolicySubject) => {
+  if (!policy.groups && !policy.users) return true;
+  return (
+    (policy.users ?? []).includes(subject.accountId) ||
+    (policy.groups ?? []).some((group) => subject.groups.includes(group))
+  );
+};
+
+const matchesSession = (policy: AuthPolicy, amr: AuthMethod[]) =>
+  !policy.whenOnly || amr.every((method) => policy.whenOnly!.includes(method));
+
+/**
+ * Policies that apply to a subject
+ */
+export const applicablePolicies = (policies: AuthPolicy[], subject: PolicySubject) =>
+  policies.filter(
+    (policy) =>
+      matchesRoute(policy, subject.route) &&
+      matchesUser(policy, subject) &&
+      matchesSession(policy, subject.amr)
+  );
+
+/**
+ * Check a session against every applicable policy. Expiry wins over step-up:
+ * an expired session has to sign in again rather than add a factor.
+ */
+export const evaluatePolicies = (policies: AuthPolicy[], subject: PolicySubject): PolicyDecision => {
+  const applicable = applicablePolicies(policies, subject);
+
+  const expired = applicable.filter(
+    (policy) =>
+      policy.maxSessionAgeSeconds !== undefined &&
+      subject.sessionAgeSeconds > policy.maxSessionAgeSeconds
+  );
+  if (expired.length > 0) {
+    return { outcome: "expired", policyIds: expired.map((policy) => policy.id) };
+  }
+
+  const factors = new Set(subject.amr);
+  const unmet = applicable.filter(
+    (policy) =>
+      (policy.requireAnyOf && !policy.requireAnyOf.some((method) => factors.has(method))) ||
+      (policy.minFactors !== undefined && factors.size < policy.minFactors)
+  );
+  if (unmet.length === 0) return { outcome: "allow" };
+
+  // Combine what the unmet policies ask for into one requirement
+  const anyOf = Array.from(new Set(unmet.flatMap((policy) => policy.requireAnyOf ?? [])));
+  const minFactors = Math.max(factors.size + 1, ...unmet.map((policy) => policy.minFactors ?? 0));
+
+  return {
+    outcome: "step-up",
+    policyIds: unmet.map((policy) => policy.id),
+    requirement: { anyOf, minFactors },
+  };
+};
@@ -0,0 +1,172 @@
+// lib/auth/rate-limit-store.ts
+import { createHash } from "crypto";
+import { AppwriteException } from "node-appwrite";
+import { createAdminClient } from "@/lib/appwrite/index";
+import { getConfig } from "@/lib/config";
+import { acquireWriteLock, releaseWriteLock } from "@/lib/repositories/appwrite";
+
+/**
+ * Storage behind the rate limiter. One entry per bucket key (e.g. "otp-send:email:a@b.c").
+ * Concurrent requests hit the same buckets, so entries only change through update, which
+ * reads, decides and writes with no other update of the entry in between.
+ */
+export interface RateLimitEntry {
+  /** Hit timestamps (ms) inside the current sliding window, oldest first */
+  hits: number[];
+  /** Consecutive failed verifications, reset on success */
+  failures: number;
+  /** Lockout expiry (ms), null when not locked */
+  lockedUntil: number | null;
+}
+
+/** The entry's next state, or null to leave it as it is */
+export type RateLimitChange = (entry: RateLimitEntry | null) => RateLimitEntry | null;
+
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitEntry | null>;
+  /**
+   * Apply change to the current entry and save the result, which may be dropped once
+   * ttlSeconds have passed. False, with nothing changed, when another update held the entry.
+   */
+  update(key: string, ttlSeconds: number, change: RateLimitChange): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Process-local store. Fine for development and single-instance deployments;
+ * kept on globalThis so dev hot reloads don't reset it.
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const entries = new Map<string, { entry: RateLimitEntry; expiresAt: number }>();
+
+  const read = (key: string) => {
+    const stored = entries.get(key);
+    if (!stored) return null;
+    if (stored.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return stored.entry;
+  };
+
+  return {
+    async get(key) {
+      return read(key);
+    },
+    async update(key, ttlSeconds, change) {
+      // Read and write in one synchronous step, so no other update can come in between
+      const next = change(read(key));
+      if (next) entries.set(key, { entry: next, expiresAt: Date.now() + ttlSeconds * 1000 });
+      return true;
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+};
+
+/** Appwrite document IDs are limited to 36 chars, so bucket keys are hashed */
+const toDocumentId = (key: string) =>
+  createHash("sha256").update(key).digest("hex").slice(0, 36);
+
+/** [databaseId, collectionId] of the rate-limits collection */
+const rateLimitsCollection = () => {
+  const { databaseId, rateLimitsCollectionId } = getConfig().appwrite;
+  return [databaseId, rateLimitsCollectionId] as const;
+};
+
+const isNotFound = (error: unknown) =>
+  error instanceof AppwriteException && error.code === 404;
+
+const readEntry = async (documentId: string): Promise<RateLimitEntry | null> => {
+  const { databases } = await createAdminClient();
+
+  try {
+    const doc = await databases.getDocument(
+      ...rateLimitsCollection(),
+      documentId
+    );
+    if (new Date(doc.expiresAt).getTime() <= Date.now()) return null;
+
+    return {
+      hits: doc.hits ?? [],
+      failures: doc.failures ?? 0,
+      lockedUntil: doc.lockedUntil ?? null,
+    };
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+};
+
+/**
+ * Store backed by the rate-limits collection, shared by every server instance.
+ * Documents: key, hits (integer[]), failures, lockedUntil, expiresAt. Updates hold the
+ * same lock documents as the repositories' updateIf.
+ */
+export const createAppwriteRateLimitStore = (): RateLimitStore => ({
+  get: (key) => readEntry(toDocumentId(key)),
+
+  async update(key, ttlSeconds, change) {
+    const documentId = toDocumentId(key);
+    if (!(await acquireWriteLock(documentId))) return false;
+
+    try {
+      const next = change(await readEntry(documentId));
+      if (!next) return true;
+
+      const { databases } = await createAdminClient();
+      const data = {
+        key,
+        ...next,
+        expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+      };
+      try {
+        await databases.updateDocument(
+          ...rateLimitsCollection(),
+          documentId,
+          data
+        );
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+        await databases.createDocument(
+          ...rateLimitsCollection(),
+          documentId,
+          data
+        );
+      }
+      return true;
+    } finally {
+      await releaseWriteLock(documentId);
+    }
+  },
+
+  async delete(key) {
+    const { databases } = await createAdminClient();
+
+    try {
+      await databases.deleteDocument(
+        ...rateLimitsCollection(),
+        toDocumentId(key)
+      );
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  },
+});
+
+const globalForRateLimit = globalThis as unknown as { rateLimitStore?: RateLimitStore };
+
+/**
+ * Store selected by RATE_LIMIT_STORE ("memory" | "appwrite", default "memory").
+ * Use "appwrite" whenever more than one server instance handles sign-ins.
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!globalForRateLimit.rateLimitStore) {
+    globalForRateLimit.rateLimitStore =
+      getConfig().rateLimitStore === "appwrite"
+        ? createAppwriteRateLimitStore()
+        : createMemoryRateLimitStore();
+  }
+  return globalForRateLimit.rateLimitStore;
+};
@@ -0,0 +1,161 @@
+// lib/auth/rate-limit.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearVerificationFailures,
+  limitOtpSend,
+  limitSignIn,
+  limitVerification,
+  rateLimitMessage,
+  recordVerificationFailure,
+} from "@/lib/auth/rate-limit";
+import { requestHeaders } from "@/tests/e2e/support/next-server";
+
+const MINUTE_MS = 60 * 1000;
+
+// The store outlives a test, so every test gets its own client IP and targets
+let testCount = 0;
+let accountId: string;
+const emailFor = (n: number) => `rate-${testCount}-${n}@example.com`;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  testCount += 1;
+  accountId = `account-${testCount}`;
+  requestHeaders.set("x-forwarded-for", `198.51.100.${testCount}`);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const advance = (ms: number) => vi.setSystemTime(Date.now() + ms);
+
+describe("sliding windows", () => {
+  it("allows three codes per email in ten minutes, then until the oldest leaves the window", async () => {
+    for (let i = 0; i < 3; i++) {
+      expect(await limitOtpSend(emailFor(1))).toEqual({ allowed: true });
+      advance(MINUTE_MS);
+    }
+
+    // Hits at 0, 1 and 2 minutes; the one at 0 leaves the window at 10
+    expect(await limitOtpSend(emailFor(1))).toEqual({ allowed: false, retryAfterSeconds: 7 * 60 });
+
+    advance(7 * MINUTE_MS - 1000);
+    expect(await limitOtpSend(emailFor(1))).toEqual({ allowed: false, retryAfterSeconds: 1 });
+
+    advance(1000);
+    expect(await limitOtpSend(emailFor(1))).toEqual({ allowed: true });
+    expect(await limitOtpSend(emailFor(1))).toMatchObject({ allowed: false });
+  });
+
+  it("treats email addresses case- and whitespace-insensitively", async () => {
+    await limitOtpSend(emailFor(1));
+    await limitOtpSend(` ${emailFor(1).toUpperCase()}`);
+    await limitOtpSend(emailFor(1));
+
+    expect(await limitOtpSend(emailFor(1).toUpperCase())).toMatchObject({ allowed: false });
+  });
+
+  it("limits one IP across many email addresses", async () => {
+    for (let i = 0; i < 10; i++) {
+      expect(await limitOtpSend(emailFor(i))).toEqual({ allowed: true });
+    }
+    expect(await limitOtpSend(emailFor(10))).toEqual({ allowed: false, retryAfterSeconds: 10 * 60 });
+  });
+
+  it("doesn't count refused requests against the window", async () => {
+    for (let i = 0; i < 20; i++) await limitSignIn();
+    for (let i = 0; i < 5; i++) {
+      advance(MINUTE_MS);
+      expect(await limitSignIn()).toMatchObject({ allowed: false });
+    }
+
+    advance(5 * MINUTE_MS);
+    expect(await limitSignIn()).toEqual({ allowed: true });
+  });
+
+  it("allows ten verifications per account in fifteen minutes", async () => {
+    for (let i = 0; i < 10; i++) {
+      expect(await limitVerification(accountId)).toEqual({ allowed: true });
+    }
+    expect(await limitVerification(accountId)).toEqual({ allowed: false, retryAfterSeconds: 15 * 60 });
+
+    advance(15 * MINUTE_MS);
+    expect(await limitVerification(accountId)).toEqual({ allowed: true });
+  });
+
+  it("lets only ten of many concurrent verifications through", async () => {
+    const results = await Promise.all(Array.from({ length: 25 }, () => limitVerification(accountId)));
+
+    expect(results.filter((result) => result.allowed)).toHaveLength(10);
+  });
+
+  it("takes back the hits of a request that a later bucket refused", async () => {
+    // Use up the per-IP window with other addresses, then ask for the first one again
+    for (let i = 0; i < 10; i++) await limitOtpSend(emailFor(i));
+
+    expect((await limitOtpSend(emailFor(0))).allowed).toBe(false);
+    requestHeaders.set("x-forwarded-for", `198.51.100.${testCount + 100}`);
+    expect(await limitOtpSend(emailFor(0))).toEqual({ allowed: true });
+    expect(await limitOtpSend(emailFor(0))).toEqual({ allowed: true });
+    expect((await limitOtpSend(emailFor(0))).allowed).toBe(false);
+  });
+});
+
+describe("lockout", () => {
+  it.each([
+    [4, null],
+    [5, 30],
+    [6, 60],
+    [7, 120],
+    [10, 960],
+    [11, 1920],
+    [12, 3600],
+    [20, 3600],
+  ])("after %i failures locks for %j seconds", async (failures, expected) => {
+    let result = await recordVerificationFailure(accountId);
+    for (let i = 1; i < failures; i++) result = await recordVerificationFailure(accountId);
+
+    expect(result).toEqual(expected === null ? { allowed: true } : { allowed: false, retryAfterSeconds: expected });
+  });
+
+  it("counts every one of many concurrent failures", async () => {
+    await Promise.all(Array.from({ length: 8 }, () => recordVerificationFailure(accountId)));
+
+    // Eight failures lock for 30s * 2^3
+    expect(await limitVerification(accountId)).toEqual({ allowed: false, retryAfterSeconds: 240 });
+  });
+
+  it("refuses verification until the lockout ends", async () => {
+    for (let i = 0; i < 6; i++) await recordVerificationFailure(accountId);
+
+    expect(await limitVerification(accountId)).toEqual({ allowed: false, retryAfterSeconds: 60 });
+    advance(59 * 1000);
+    expect(await limitVerification(accountId)).toEqual({ allowed: false, retryAfterSeconds: 1 });
+    advance(1000);
+    expect(await limitVerification(accountId)).toEqual({ allowed: true });
+  });
+
+  it("starts the streak over after a success", async () => {
+    for (let i = 0; i < 6; i++) await recordVerificationFailure(accountId);
+    await clearVerificationFailures(accountId);
+
+    expect(await limitVerification(accountId)).toEqual({ allowed: true });
+    expect(await recordVerificationFailure(accountId)).toEqual({ allowed: true });
+  });
+
+  it("forgets a streak after a day without failures", async () => {
+    for (let i = 0; i < 4; i++) await recordVerificationFailure(accountId);
+    advance(24 * 60 * MINUTE_MS);
+
+    expect(await recordVerificationFailure(accountId)).toEqual({ allowed: true });
+  });
+});
+
+describe("rateLimitMessage", () => {
+  it("counts down in seconds", () => {
+    expect(rateLimitMessage(1)).toBe("Too many attempts. Try again in 1 second.");
+    expect(rateLimitMessage(30)).toBe("Too many attempts. Try again in 30 seconds.");
+  });
+});
@@ -0,0 +1,189 @@
+// lib/auth/rate-limit.ts
+import { getRequestContext } from "@/lib/auth/request-context";
+import { getRateLimitStore, type RateLimitChange, type RateLimitEntry } from "@/lib/auth/rate-limit-store";
+
+/**
+ * Sliding-window rate limits for OTP sending and code verification, plus progressive
+ * lockout after repeated failed verifications. Buckets are keyed per email, per account
+ * and per client IP, so neither rotating IPs nor rotating targets gets around them.
+ */
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number };
+
+interface RateLimitRule {
+  key: string;
+  limit: number;
+  windowSeconds: number;
+}
+
+const MINUTE = 60;
+
+const OTP_SEND_PER_EMAIL = { limit: 3, windowSeconds: 10 * MINUTE };
+const OTP_SEND_PER_IP = { limit: 10, windowSeconds: 10 * MINUTE };
+const SIGN_IN_PER_IP = { limit: 20, windowSeconds: 10 * MINUTE };
+const VERIFY_PER_ACCOUNT = { limit: 10, windowSeconds: 15 * MINUTE };
+const VERIFY_PER_IP = { limit: 30, windowSeconds: 15 * MINUTE };
+
+/** Consecutive failures allowed before the account is locked */
+const LOCKOUT_THRESHOLD = 5;
+/** First lockout; doubles with every further failure */
+const LOCKOUT_BASE_SECONDS = 30;
+const LOCKOUT_MAX_SECONDS = 60 * MINUTE;
+/** How long a failure streak is remembered without new failures */
+const FAILURE_MEMORY_SECONDS = 24 * 60 * MINUTE;
+/** Updates of one bucket tried before a request is refused as contended */
+const UPDATE_ATTEMPTS = 3;
+/** What a request is told when its buckets stayed contended */
+const CONTENDED_RETRY_SECONDS = 1;
+
+const emptyEntry = (): RateLimitEntry => ({ hits: [], failures: 0, lockedUntil: null });
+
+const secondsUntil = (timestamp: number, now: number) =>
+  Math.max(1, Math.ceil((timestamp - now) / 1000));
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Update a bucket, trying again while other requests hold it. False when it stayed held.
+ */
+const updateBucket = async (key: string, ttlSeconds: number, change: RateLimitChange): Promise<boolean> => {
+  const store = getRateLimitStore();
+  for (let attempt = 0; attempt < UPDATE_ATTEMPTS; attempt++) {
+    if (await store.update(key, ttlSeconds, change)) return true;
+  }
+  return false;
+};
+
+/** A hit timestamp taken back out of a bucket */
+const withoutHit = (hits: number[], hit: number) => {
+  const index = hits.lastIndexOf(hit);
+  return index === -1 ? hits : [...hits.slice(0, index), ...hits.slice(index + 1)];
+};
+
+/**
+ * Check every rule and, only if all pass, record a hit in each bucket.
+ * A denied request does not count against the window: each bucket checks and counts in
+ * one update, and the hits already counted are taken back when a later bucket refuses.
+ */
+const consume = async (rules: RateLimitRule[]): Promise<RateLimitResult> => {
+  const now = Date.now();
+  const counted: RateLimitRule[] = [];
+  const retryAfter: number[] = [];
+
+  for (const rule of rules) {
+    let refusedFor: number | null = null;
+    const updated = await updateBucket(rule.key, rule.windowSeconds, (entry) => {
+      const current = entry ?? emptyEntry();
+      const windowStart = now - rule.windowSeconds * 1000;
+      const hits = current.hits.filter((hit) => hit > windowStart);
+
+      refusedFor =
+        hits.length >= rule.limit
+          ? secondsUntil(hits[hits.length - rule.limit] + rule.windowSeconds * 1000, now)
+          : null;
+      // Once a bucket has refused, the rest are only checked for how long to wait
+      if (refusedFor !== null || retryAfter.length > 0) return null;
+      return { ...current, hits: [...hits, now] };
+    });
+
+    if (!updated) retryAfter.push(CONTENDED_RETRY_SECONDS);
+    else if (refusedFor !== null) retryAfter.push(refusedFor);
+    else if (retryAfter.length === 0) counted.push(rule);
+  }
+
+  if (retryAfter.length === 0) return { allowed: true };
+
+  await Promise.all(
+    counted.map((rule) =>
+      updateBucket(rule.key, rule.windowSeconds, (entry) => entry && { ...entry, hits: withoutHit(entry.hits, now) })
+    )
+  );
+  return { allowed: false, retryAfterSeconds: Math.max(...retryAfter) };
+};
+
+const lockoutKey = (accountId: string) => `verify-failures:account:${accountId}`;
+
+/**
+ * Lockout duration for a failure streak: 0 below the threshold, then 30s, 60s, 120s… up to an hour
+ */
+const lockoutSecondsFor = (failures: number): number => {
+  if (failures < LOCKOUT_THRESHOLD) return 0;
+  const seconds = LOCKOUT_BASE_SECONDS * 2 ** (failures - LOCKOUT_THRESHOLD);
+  return Math.min(seconds, LOCKOUT_MAX_SECONDS);
+};
+
+/**
+ * Limit OTP emails per recipient and per client IP. Call before every send.
+ */
+export const limitOtpSend = async (email: string): Promise<RateLimitResult> => {
+  const { ipAddress } = await getRequestContext();
+
+  return consume([
+    { key: `otp-send:email:${normalizeEmail(email)}`, ...OTP_SEND_PER_EMAIL },
+    { key: `otp-send:ip:${ipAddress}`, ...OTP_SEND_PER_IP },
+  ]);
+};
+
+/**
+ * Limit sign-in lookups per client IP
+ */
+export const limitSignIn = async (): Promise<RateLimitResult> => {
+  const { ipAddress } = await getRequestContext();
+
+  return consume([{ key: `sign-in:ip:${ipAddress}`, ...SIGN_IN_PER_IP }]);
+};
+
+/**
+ * Gate a code verification (email OTP, authenticator app or recovery code) for an account.
+ * Refuses while the account is locked out, otherwise applies the per-account and per-IP windows.
+ */
+export const limitVerification = async (accountId: string): Promise<RateLimitResult> => {
+  const entry = await getRateLimitStore().get(lockoutKey(accountId));
+  const now = Date.now();
+  if (entry?.lockedUntil && entry.lockedUntil > now) {
+    return { allowed: false, retryAfterSeconds: secondsUntil(entry.lockedUntil, now) };
+  }
+
+  const { ipAddress } = await getRequestContext();
+
+  return consume([
+    { key: `verify:account:${accountId}`, ...VERIFY_PER_ACCOUNT },
+    { key: `verify:ip:${ipAddress}`, ...VERIFY_PER_IP },
+  ]);
+};
+
+/**
+ * Count a failed verification. Once the streak reaches the threshold the account is locked,
+ * and each further failure doubles the lockout. Returns the lockout, if one started.
+ */
+export const recordVerificationFailure = async (accountId: string): Promise<RateLimitResult> => {
+  const now = Date.now();
+  let lockoutSeconds = 0;
+
+  const updated = await updateBucket(lockoutKey(accountId), FAILURE_MEMORY_SECONDS, (entry) => {
+    const current = entry ?? emptyEntry();
+    const failures = current.failures + 1;
+    lockoutSeconds = lockoutSecondsFor(failures);
+    return { ...current, failures, lockedUntil: lockoutSeconds > 0 ? now + lockoutSeconds * 1000 : null };
+  });
+  // A failure that couldn't be counted must not leave the account open to more guesses
+  if (!updated) return { allowed: false, retryAfterSeconds: CONTENDED_RETRY_SECONDS };
+
+  return lockoutSeconds > 0 ? { allowed: false, retryAfterSeconds: lockoutSeconds } : { allowed: true };
+};
+
+/**
+ * End the failure streak after a successful verification
+ */
+export const clearVerificationFailures = async (accountId: string) => {
+  await getRateLimitStore().delete(lockoutKey(accountId));
+};
+
+/**
+ * User-facing message for a refused request. Actions also return retryAfterSeconds
+ * so the client can count down.
+ */
+export const rateLimitMessage = (retryAfterSeconds: number) =>
+  `Too many attempts. Try again in ${retryAfterSeconds} second${retryAfterSeconds === 1 ? "" : "s"}.`;
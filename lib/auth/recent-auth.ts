@@ -0,0 +1,58 @@
+// lib/auth/recent-auth.ts
+import type { ServerResult } from "@/lib/actions/auth.actions";
+import { resolveCurrentSession } from "@/lib/auth/current-session";
+import { secondFactorsFor } from "@/lib/auth/risk-assessment";
+import type { AuthMethod } from "@/lib/auth/session-token";
+import { getRepositories } from "@/lib/repositories";
+
+/**
+ * Re-authentication for sensitive actions: the session must have verified a factor
+ * within the last few minutes, however long ago it signed in.
+ */
+
+/** Sent to the client when the session's last verification is too old */
+export interface ReauthChallenge {
+  accountId: string;
+  email: string;
+  /** Any one of these refreshes the session */
+  methods: AuthMethod[];
+  maxAgeSeconds: number;
+}
+
+export const REAUTH_REQUIRED_MESSAGE = "Please confirm it's you to continue.";
+
+/** How fresh the last verification must be for deleting factors, changing email and similar */
+export const SENSITIVE_ACTION_MAX_AGE_SECONDS = 5 * 60;
+
+/**
+ * Wrap a server action so it only runs when the current session verified a factor
+ * within maxAgeSeconds. Otherwise the action returns a `reauth` challenge; the client
+ * (see useRecentAuth) verifies with elevateSession / elevateSessionWithOtp and retries.
+ *
+ *   export const deleteThing = requireRecentAuth(5 * 60)(async (id: string) => { ... });
+ */
+export const requireRecentAuth =
+  (maxAgeSeconds: number) =>
+  <Args extends unknown[], T>(action: (...args: Args) => Promise<ServerResult<T>>) =>
+  async (...args: Args): Promise<ServerResult<T>> => {
+    const session = await resolveCurrentSession();
+    if (!session) return { success: false, error: "Not signed in" };
+
+    const ageSeconds = (Date.now() - new Date(session.verifiedAt).getTime()) / 1000;
+    if (ageSeconds <= maxAgeSeconds) return action(...args);
+
+    const user = await getRepositories().users.findByAccountId(session.accountId);
+    if (!user) return { success: false, error: "User not found" };
+
+    return {
+      success: false,
+      error: REAUTH_REQUIRED_MESSAGE,
+      reauth: {
+        accountId: session.accountId,
+        email: user.email,
+        // Any enrolled factor will do, including the one the session signed in with
+        methods: secondFactorsFor(user, []),
+        maxAgeSeconds,
+      },
+    };
+  };
@@ -0,0 +1,88 @@
+// lib/auth/recovery-codes.ts
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { base32Encode } from "@/lib/auth/totp";
+import { getRepositories, type UserRecord } from "@/lib/repositories";
+
+/**
+ * Single-use recovery codes. Each code carries 80 random bits (16 base32 characters,
+ * shown as XXXX-XXXX-XXXX-XXXX), which makes a plain SHA-256 hash safe to store —
+ * the codes themselves are only ever shown to the user once.
+ */
+
+export const RECOVERY_CODE_COUNT = 10;
+const CODE_BYTES = 10;
+
+/** Uppercase, drop dashes and whitespace so users can type codes loosely */
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[\s-]/g, "");
+
+export const hashRecoveryCode = (code: string) =>
+  createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+
+const formatRecoveryCode = (raw: string) => raw.match(/.{1,4}/g)!.join("-");
+
+export const generateRecoveryCodes = (count = RECOVERY_CODE_COUNT) => {
+  const codes = Array.from({ length: count }, () =>
+    formatRecoveryCode(base32Encode(randomBytes(CODE_BYTES)))
+  );
+
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+/**
+ * Find which stored hash a code matches. Returns its index, or -1.
+ * Every hash is compared so timing doesn't reveal the position.
+ */
+export const findRecoveryCode = (code: string, hashes: string[]): number => {
+  const candidate = Buffer.from(hashRecoveryCode(code), "hex");
+  let match = -1;
+
+  hashes.forEach((hash, index) => {
+    const stored = Buffer.from(hash, "hex");
+    if (stored.length === candidate.length && timingSafeEqual(stored, candidate)) {
+      match = index;
+    }
+  });
+
+  return match;
+};
+
+/**
+ * Hashes live on the user document in the `recoveryCodes` string array. Written
+ * compare-and-swap against the user's current hashes: false when they changed since
+ * the user was read.
+ */
+const replaceRecoveryCodeHashes = (user: UserRecord, hashes: string[]) =>
+  getRepositories().users.updateIf(user.$id, { recoveryCodes: user.recoveryCodes }, { recoveryCodes: hashes });
+
+/**
+ * Create a fresh set of recovery codes for a user document, replacing any existing set.
+ * Returns the plaintext codes — the only time they exist outside the user's hands.
+ */
+export const issueRecoveryCodes = async (user: UserRecord): Promise<string[]> => {
+  const { codes, hashes } = generateRecoveryCodes();
+  if (!(await replaceRecoveryCodeHashes(user, hashes))) {
+    throw new Error("Your recovery codes changed in the meantime. Try again.");
+  }
+  return codes;
+};
+
+/** Rounds of reading and writing the hashes before giving up on a busy account */
+const CONSUME_ATTEMPTS = 3;
+
+/**
+ * Use up one of an account's recovery codes. Returns how many are left, or null when the
+ * code matches no unused one. The write only lands if no other code was used in between,
+ * in which case it starts over, so concurrent requests can't both use the same code.
+ */
+export const consumeRecoveryCode = async (accountId: string, code: string): Promise<number | null> => {
+  for (let attempt = 0; attempt < CONSUME_ATTEMPTS; attempt++) {
+    const user = await getRepositories().users.findByAccountId(accountId);
+    const hashes = user?.recoveryCodes ?? [];
+    const index = findRecoveryCode(code, hashes);
+    if (!user || index === -1) return null;
+
+    const remaining = hashes.filter((_, i) => i !== index);
+    if (await replaceRecoveryCodeHashes(user, remaining)) return remaining.length;
+  }
+  throw new Error("Too many sign-ins at once. Try again.");
+};
@@ -0,0 +1,43 @@
+// lib/auth/request-context.test.ts
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getRequestContext } from "@/lib/auth/request-context";
+import { requestHeaders } from "@/tests/e2e/support/next-server";
+
+const settings = vi.hoisted(() => ({ trustedProxyCount: "1" }));
+
+vi.mock("@/lib/config", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/config")>();
+  return {
+    ...actual,
+    getConfig: () => actual.loadConfig({ ...process.env, TRUSTED_PROXY_COUNT: settings.trustedProxyCount }),
+  };
+});
+
+const ipFor = async (forwarded: string | null, trustedProxyCount = 1) => {
+  settings.trustedProxyCount = String(trustedProxyCount);
+  if (forwarded === null) requestHeaders.delete("x-forwarded-for");
+  else requestHeaders.set("x-forwarded-for", forwarded);
+  return (await getRequestContext()).ipAddress;
+};
+
+describe("getRequestContext", () => {
+  afterEach(() => {
+    requestHeaders.set("x-forwarded-for", "203.0.113.10");
+  });
+
+  it("takes the hop the trusted proxy appended", async () => {
+    expect(await ipFor("203.0.113.7")).toBe("203.0.113.7");
+    expect(await ipFor("203.0.113.7, 10.0.0.2", 2)).toBe("203.0.113.7");
+  });
+
+  it("ignores hops the client put in front", async () => {
+    expect(await ipFor("198.51.100.1, 203.0.113.7")).toBe("203.0.113.7");
+    expect(await ipFor("198.51.100.1, 198.51.100.2, 203.0.113.7, 10.0.0.2", 2)).toBe("203.0.113.7");
+  });
+
+  it("doesn't know the client without the trusted proxies' hops", async () => {
+    expect(await ipFor(null)).toBe("unknown");
+    expect(await ipFor("203.0.113.7", 2)).toBe("unknown");
+    expect(await ipFor("203.0.113.7", 0)).toBe("unknown");
+  });
+});
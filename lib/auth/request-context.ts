@@ -0,0 +1,60 @@
+// lib/auth/request-context.ts
+import { headers } from "next/headers";
+import { getConfig } from "@/lib/config";
+
+export interface RequestContext {
+  ipAddress: string;
+  userAgent: string;
+}
+
+/**
+ * The address the outermost trusted proxy saw. Each proxy appends its peer to whatever
+ * x-forwarded-for the client sent, so only the last TRUSTED_PROXY_COUNT hops are facts;
+ * the ones before them are the client's to choose.
+ */
+const clientIp = (forwarded: string | null, trustedProxyCount: number) => {
+  const hops = (forwarded ?? "").split(",").map((hop) => hop.trim()).filter(Boolean);
+  if (trustedProxyCount === 0 || hops.length < trustedProxyCount) return "unknown";
+  return hops[hops.length - trustedProxyCount];
+};
+
+/**
+ * Client IP and user agent for the current request
+ */
+export const getRequestContext = async (): Promise<RequestContext> => {
+  const h = await headers();
+  const ipAddress = clientIp(h.get("x-forwarded-for"), getConfig().trustedProxyCount);
+
+  return { ipAddress, userAgent: h.get("user-agent") ?? "unknown" };
+};
+
+/**
+ * Human-friendly "Browser on OS" label from a user agent string
+ */
+export const describeDevice = (userAgent: string): string => {
+  const ua = userAgent.toLowerCase();
+
+  const browser = ua.includes("edg/")
+    ? "Edge"
+    : ua.includes("firefox/")
+      ? "Firefox"
+      : ua.includes("chrome/")
+        ? "Chrome"
+        : ua.includes("safari/")
+          ? "Safari"
+          : "Unknown browser";
+
+  const os = /iphone|ipad/.test(ua)
+    ? "iOS"
+    : ua.includes("android")
+      ? "Android"
+      : ua.includes("windows")
+        ? "Windows"
+        : ua.includes("mac os x")
+          ? "macOS"
+          : ua.includes("linux")
+            ? "Linux"
+            : "Unknown OS";
+
+  return `${browser} on ${os}`;
+};
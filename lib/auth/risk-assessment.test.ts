@@ -0,0 +1,46 @@
+// lib/auth/risk-assessment.test.ts
+import { describe, expect, it } from "vitest";
+import { listAuditEvents } from "@/lib/auth/audit-log";
+import { gateSignIn, secondFactorsFor } from "@/lib/auth/risk-assessment";
+import { getRepositories, type UserRecord } from "@/lib/repositories";
+
+const createUser = (enrolled: Partial<UserRecord> = {}) =>
+  getRepositories().users.create({
+    accountId: "account-1",
+    userId: "account-1",
+    fullName: "Ada Lovelace",
+    email: "ada@example.com",
+    avatar: null,
+    authMethod: "otp",
+    hasPasskey: false,
+    passKeyCount: 0,
+    ...enrolled,
+  });
+
+describe("secondFactorsFor", () => {
+  it("offers enrolled factors strongest first, with recovery codes after the emailed code", async () => {
+    const user = await createUser({ hasPasskey: true, totpEnabled: true, recoveryCodes: ["hash"] });
+
+    expect(secondFactorsFor(user, [])).toEqual(["passkey", "totp", "otp", "recovery"]);
+    expect(secondFactorsFor(user, ["passkey"])).toEqual(["totp", "otp", "recovery"]);
+  });
+
+  it("always offers the emailed code", async () => {
+    const user = await createUser();
+
+    expect(secondFactorsFor(user, ["passkey"])).toEqual(["otp"]);
+    expect(secondFactorsFor(user, ["otp"])).toEqual([]);
+  });
+});
+
+describe("gateSignIn", () => {
+  it("audits a sign-in refused because no second factor is left", async () => {
+    const user = await createUser();
+
+    expect(await gateSignIn({ user, amr: ["otp"], requireSecondFactor: true })).toEqual({ outcome: "deny" });
+
+    const [event] = await listAuditEvents(user.accountId);
+    expect(event).toMatchObject({ type: "risk.denied", method: "otp", outcome: "failure" });
+    expect(event.detail).toMatch(/^second factor required, none left/);
+  });
+});
@@ -0,0 +1,164 @@
+// lib/auth/risk-assessment.ts
+import { listAuditEvents, logAuditEvent } from "@/lib/auth/audit-log";
+import { lookupGeo } from "@/lib/auth/geoip";
+import { notifyUser } from "@/lib/auth/notifications";
+import { describeDevice, getRequestContext } from "@/lib/auth/request-context";
+import { evaluateRisk, loadRiskConfig, type RiskAssessment, type SignInSnapshot } from "@/lib/auth/risk-engine";
+import { issueStepUpTicket, verifyStepUpTicket, type AuthMethod } from "@/lib/auth/session-token";
+import type { UserRecord } from "@/lib/repositories";
+
+/**
+ * Runs the risk engine for a real sign-in and turns its decision into what the
+ * session endpoints do next: create the session, ask for another factor, or refuse.
+ */
+
+/** Sent to the client when another factor is needed */
+export interface StepUpChallenge {
+  accountId: string;
+  /** Pass back, with the next factor's proof, to finish signing in */
+  ticket: string;
+  /** Factors that can satisfy the step-up, in preferred order */
+  methods: AuthMethod[];
+}
+
+export type SignInGate =
+  | { outcome: "allow"; amr: AuthMethod[] }
+  | { outcome: "step-up"; challenge: StepUpChallenge }
+  | { outcome: "deny" };
+
+/** Audit history considered for the account */
+const HISTORY_LIMIT = 100;
+
+/**
+ * Score the current request as a sign-in to accountId
+ */
+export const assessSignInRisk = async (accountId: string): Promise<RiskAssessment> => {
+  const config = loadRiskConfig();
+  const { ipAddress, userAgent } = await getRequestContext();
+  const events = await listAuditEvents(accountId, HISTORY_LIMIT);
+  const now = new Date();
+
+  const history: SignInSnapshot[] = events
+    .filter((event) => event.type === "session.created" && event.outcome === "success")
+    .map((event) => ({
+      at: new Date(event.$createdAt),
+      ipAddress: event.ipAddress,
+      device: describeDevice(event.userAgent),
+      geo: null,
+    }));
+
+  // Only the latest sign-in matters for impossible travel
+  if (history[0]) history[0].geo = await lookupGeo(history[0].ipAddress);
+
+  const failureWindowStart = now.getTime() - config.recentFailureWindowMinutes * 60 * 1000;
+  const recentFailures = events.filter(
+    (event) => event.outcome === "failure" && new Date(event.$createdAt).getTime() >= failureWindowStart
+  ).length;
+
+  return evaluateRisk(
+    {
+      attempt: { at: now, ipAddress, device: describeDevice(userAgent), geo: await lookupGeo(ipAddress) },
+      history,
+      recentFailures,
+    },
+    config
+  );
+};
+
+/**
+ * Factors that can complement the ones already used. Email OTP is always possible
+ * as a second factor; it is the one thing every account has. Recovery codes come last:
+ * they are single-use and meant for when nothing else works.
+ */
+export const secondFactorsFor = (user: UserRecord, used: AuthMethod[]): AuthMethod[] => {
+  const enrolled: AuthMethod[] = [
+    ...(user.hasPasskey ? (["passkey"] as const) : []),
+    ...(user.totpEnabled ? (["totp"] as const) : []),
+    "otp",
+    ...((user.recoveryCodes ?? []).length > 0 ? (["recovery"] as const) : []),
+  ];
+  return enrolled.filter((method) => !used.includes(method));
+};
+
+/**
+ * Tell the user about a sign-in from a device their history doesn't have
+ */
+const notifyNewDevice = async (accountId: string) => {
+  const { ipAddress, userAgent } = await getRequestContext();
+  await notifyUser({
+    accountId,
+    template: "new-device",
+    data: { device: describeDevice(userAgent), ipAddress, at: new Date().toUTCString() },
+  });
+};
+
+/**
+ * Decide whether a sign-in whose factor just verified may get a session.
+ * stepUpTicket is the ticket from an earlier step-up; its factors count towards this sign-in.
+ * requireSecondFactor asks for a step-up whatever the risk score, e.g. for a suspect factor.
+ */
+export const gateSignIn = async ({
+  user,
+  amr,
+  stepUpTicket,
+  requireSecondFactor = false,
+}: {
+  user: UserRecord;
+  amr: AuthMethod[];
+  stepUpTicket?: string;
+  requireSecondFactor?: boolean;
+}): Promise<SignInGate> => {
+  const earlier = stepUpTicket ? verifyStepUpTicket(stepUpTicket) : null;
+  const combined =
+    earlier && earlier.sub === user.accountId
+      ? Array.from(new Set([...earlier.amr, ...amr]))
+      : amr;
+
+  const assessment = await assessSignInRisk(user.accountId);
+  const detail = `${assessment.signals.join(", ")} (score ${assessment.score})`;
+
+  if (assessment.decision === "deny") {
+    await logAuditEvent({ type: "risk.denied", accountId: user.accountId, method: amr[0], outcome: "failure", detail });
+    await notifyUser({ accountId: user.accountId, template: "sign-in-blocked", data: { signals: assessment.signals } });
+    return { outcome: "deny" };
+  }
+
+  if ((assessment.decision === "step-up" || requireSecondFactor) && combined.length < 2) {
+    const methods = secondFactorsFor(user, combined);
+
+    // Nothing left to ask for — let the sign-in through but make sure the user hears about it
+    if (methods.length === 0 && !requireSecondFactor) {
+      await notifyNewDevice(user.accountId);
+      return { outcome: "allow", amr: combined };
+    }
+
+    if (methods.length === 0) {
+      await logAuditEvent({
+        type: "risk.denied",
+        accountId: user.accountId,
+        method: amr[0],
+        outcome: "failure",
+        detail: `second factor required, none left; ${detail}`,
+      });
+      return { outcome: "deny" };
+    }
+
+    await logAuditEvent({
+      type: "risk.step-up",
+      accountId: user.accountId,
+      method: amr[0],
+      detail: requireSecondFactor ? `second factor required; ${detail}` : detail,
+    });
+    return {
+      outcome: "step-up",
+      challenge: {
+        accountId: user.accountId,
+        ticket: issueStepUpTicket({ accountId: user.accountId, amr: combined }),
+        methods,
+      },
+    };
+  }
+
+  if (assessment.signals.includes("new-device")) await notifyNewDevice(user.accountId);
+  return { outcome: "allow", amr: combined };
+};
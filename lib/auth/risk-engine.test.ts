@@ -0,0 +1,128 @@
+// lib/auth/risk-engine.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_RISK_CONFIG,
+  distanceKm,
+  evaluateRisk,
+  ipRange,
+  type GeoPoint,
+  type RiskInput,
+  type RiskSignal,
+  type SignInSnapshot,
+} from "@/lib/auth/risk-engine";
+
+const LONDON: GeoPoint = { latitude: 51.5072, longitude: -0.1276, country: "GB" };
+const OXFORD: GeoPoint = { latitude: 51.752, longitude: -1.2577, country: "GB" };
+const NEW_YORK: GeoPoint = { latitude: 40.7128, longitude: -74.006, country: "US" };
+const SYDNEY: GeoPoint = { latitude: -33.8688, longitude: 151.2093, country: "AU" };
+
+const HOUR_MS = 60 * 60 * 1000;
+const LAST_SIGN_IN = new Date("2026-03-02T09:00:00Z");
+
+/** Three usual sign-ins, newest first: same laptop and network, around 09:00 UTC, from London */
+const HISTORY: SignInSnapshot[] = [0, 1, 2].map((daysAgo) => ({
+  at: new Date(LAST_SIGN_IN.getTime() - daysAgo * 24 * HOUR_MS),
+  ipAddress: "203.0.113.5",
+  device: "Chrome on macOS",
+  geo: daysAgo === 0 ? LONDON : null,
+}));
+
+/** An hour after the last sign-in, from the same laptop on the same network */
+const USUAL_ATTEMPT: SignInSnapshot = {
+  at: new Date(LAST_SIGN_IN.getTime() + HOUR_MS),
+  ipAddress: "203.0.113.77",
+  device: "Chrome on macOS",
+  geo: LONDON,
+};
+
+/** An attempt that raises exactly the given signals */
+const inputWith = (signals: RiskSignal[]): RiskInput => ({
+  attempt: {
+    at: new Date(LAST_SIGN_IN.getTime() + (signals.includes("unusual-time") ? 5 : 1) * HOUR_MS),
+    ipAddress: signals.includes("new-ip-range") ? "198.51.100.7" : USUAL_ATTEMPT.ipAddress,
+    device: signals.includes("new-device") ? "Firefox on Windows" : USUAL_ATTEMPT.device,
+    geo: signals.includes("impossible-travel") ? SYDNEY : LONDON,
+  },
+  history: HISTORY,
+  recentFailures: signals.includes("recent-failures") ? DEFAULT_RISK_CONFIG.recentFailureThreshold : 0,
+});
+
+describe("evaluateRisk rules", () => {
+  it.each<[string, Partial<SignInSnapshot>, RiskSignal[]]>([
+    ["a usual sign-in", {}, []],
+    ["another browser", { device: "Firefox on Windows" }, ["new-device"]],
+    ["another address in the same /24", { ipAddress: "203.0.113.200" }, []],
+    ["another /24", { ipAddress: "203.0.114.5" }, ["new-ip-range"]],
+    ["two hours off the usual time", { at: new Date(LAST_SIGN_IN.getTime() + 2 * HOUR_MS) }, []],
+    ["three hours off the usual time", { at: new Date(LAST_SIGN_IN.getTime() + 3 * HOUR_MS) }, ["unusual-time"]],
+    ["a nearby town", { geo: OXFORD }, []],
+    ["New York an hour later", { geo: NEW_YORK }, ["impossible-travel"]],
+    ["New York ten hours later", { geo: NEW_YORK, at: new Date(LAST_SIGN_IN.getTime() + 10 * HOUR_MS) }, ["unusual-time"]],
+    ["an unknown location", { geo: null }, []],
+  ])("flags %s with %j", (_case, attempt, signals) => {
+    const input: RiskInput = { attempt: { ...USUAL_ATTEMPT, ...attempt }, history: HISTORY, recentFailures: 0 };
+    expect(evaluateRisk(input).signals).toEqual(signals);
+  });
+
+  it("wraps the usual-time check around midnight", () => {
+    const history = HISTORY.map((prior) => ({ ...prior, at: new Date(prior.at.getTime() + 14 * HOUR_MS) }));
+    const attempt = { ...USUAL_ATTEMPT, at: new Date(LAST_SIGN_IN.getTime() + 16 * HOUR_MS), geo: null };
+
+    // Usual sign-ins at 23:00, this one at 01:00
+    expect(evaluateRisk({ attempt, history, recentFailures: 0 }).signals).toEqual([]);
+  });
+
+  it.each([
+    [DEFAULT_RISK_CONFIG.recentFailureThreshold - 1, []],
+    [DEFAULT_RISK_CONFIG.recentFailureThreshold, ["recent-failures"]],
+  ])("with %i recent failures flags %j", (recentFailures, signals) => {
+    expect(evaluateRisk({ attempt: USUAL_ATTEMPT, history: HISTORY, recentFailures }).signals).toEqual(signals);
+  });
+
+  it("skips device, network and time checks until there is enough history", () => {
+    const attempt = { ...inputWith(["new-device", "new-ip-range", "unusual-time"]).attempt, geo: null };
+    const history = HISTORY.slice(0, DEFAULT_RISK_CONFIG.minHistory - 1);
+
+    expect(evaluateRisk({ attempt, history, recentFailures: 0 }).signals).toEqual([]);
+    expect(evaluateRisk({ attempt, history: [], recentFailures: 3 }).signals).toEqual(["recent-failures"]);
+  });
+});
+
+describe("DEFAULT_RISK_CONFIG thresholds", () => {
+  it.each<[RiskSignal[], number, string]>([
+    [[], 0, "allow"],
+    [["unusual-time"], 10, "allow"],
+    [["new-ip-range", "unusual-time"], 25, "allow"],
+    [["new-device"], 30, "allow"],
+    [["new-device", "unusual-time"], 40, "step-up"],
+    [["unusual-time", "recent-failures"], 40, "step-up"],
+    [["new-device", "new-ip-range"], 45, "step-up"],
+    [["impossible-travel"], 60, "step-up"],
+    [["new-device", "new-ip-range", "unusual-time", "recent-failures"], 85, "step-up"],
+    [["recent-failures", "impossible-travel"], 90, "deny"],
+    [["new-device", "new-ip-range", "unusual-time", "recent-failures", "impossible-travel"], 145, "deny"],
+  ])("%j scores %i and decides %s", (signals, score, decision) => {
+    expect(evaluateRisk(inputWith(signals))).toEqual({ score, signals, decision });
+  });
+
+  it("follows overridden thresholds", () => {
+    const strict = { ...DEFAULT_RISK_CONFIG, stepUpThreshold: 10, denyThreshold: 30 };
+
+    expect(evaluateRisk(inputWith(["unusual-time"]), strict).decision).toBe("step-up");
+    expect(evaluateRisk(inputWith(["new-device"]), strict).decision).toBe("deny");
+  });
+});
+
+describe("helpers", () => {
+  it.each([
+    ["203.0.113.5", "203.0.113"],
+    ["2001:db8:85a3:8d3:1319:8a2e:370:7348", "2001:db8:85a3"],
+  ])("puts %s in the range %s", (ipAddress, range) => {
+    expect(ipRange(ipAddress)).toBe(range);
+  });
+
+  it("measures great-circle distances", () => {
+    expect(distanceKm(LONDON, NEW_YORK)).toBeCloseTo(5570, -1);
+    expect(distanceKm(LONDON, LONDON)).toBe(0);
+  });
+});
@@ -0,0 +1,175 @@
+// lib/auth/risk-engine.ts
+import { getConfig } from "@/lib/config";
+
+/**
+ * Sign-in risk scoring. Pure: everything it needs (the attempt, prior sign-ins, failure count
+ * and config) is passed in, so rules can be unit-tested without Appwrite, headers or GeoIP.
+ * lib/auth/risk-assessment.ts gathers the inputs for a real request.
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+  country: string | null;
+}
+
+export interface SignInSnapshot {
+  at: Date;
+  ipAddress: string;
+  /** "Browser on OS" label, see describeDevice */
+  device: string;
+  geo: GeoPoint | null;
+}
+
+export interface RiskInput {
+  attempt: SignInSnapshot;
+  /** Previous successful sign-ins, newest first */
+  history: SignInSnapshot[];
+  /** Failed verifications for the account within config.recentFailureWindowMinutes */
+  recentFailures: number;
+}
+
+export type RiskSignal =
+  | "new-device"
+  | "new-ip-range"
+  | "unusual-time"
+  | "recent-failures"
+  | "impossible-travel";
+
+export type RiskDecision = "allow" | "step-up" | "deny";
+
+export interface RiskAssessment {
+  score: number;
+  signals: RiskSignal[];
+  decision: RiskDecision;
+}
+
+export interface RiskConfig {
+  /** Score added by each signal */
+  weights: Record<RiskSignal, number>;
+  /** Score at or above which a second factor is required */
+  stepUpThreshold: number;
+  /** Score at or above which the sign-in is refused */
+  denyThreshold: number;
+  /** Prior sign-ins needed before device, IP and time checks mean anything */
+  minHistory: number;
+  /** Hours either side of a past sign-in hour that count as usual */
+  usualHourTolerance: number;
+  recentFailureWindowMinutes: number;
+  /** Failures within the window that raise the recent-failures signal */
+  recentFailureThreshold: number;
+  /** Fastest plausible travel between two sign-ins */
+  maxTravelSpeedKmh: number;
+}
+
+export const DEFAULT_RISK_CONFIG: RiskConfig = {
+  weights: {
+    "new-device": 30,
+    "new-ip-range": 15,
+    "unusual-time": 10,
+    "recent-failures": 30,
+    "impossible-travel": 60,
+  },
+  stepUpThreshold: 40,
+  denyThreshold: 90,
+  minHistory: 3,
+  usualHourTolerance: 2,
+  recentFailureWindowMinutes: 60,
+  recentFailureThreshold: 3,
+  maxTravelSpeedKmh: 900,
+};
+
+/**
+ * The network an address belongs to: /24 for IPv4, /48 for IPv6
+ */
+export const ipRange = (ipAddress: string): string => {
+  if (ipAddress.includes(":")) {
+    return ipAddress.split(":").slice(0, 3).join(":");
+  }
+  return ipAddress.split(".").slice(0, 3).join(".");
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points (haversine)
+ */
+export const distanceKm = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+/** Distance between two hours on a 24h clock, e.g. 23 and 1 are 2 apart */
+const hourDistance = (a: number, b: number) => {
+  const diff = Math.abs(a - b);
+  return Math.min(diff, 24 - diff);
+};
+
+const isImpossibleTravel = (attempt: SignInSnapshot, previous: SignInSnapshot | undefined, config: RiskConfig) => {
+  if (!previous?.geo || !attempt.geo) return false;
+
+  const km = distanceKm(previous.geo, attempt.geo);
+  const hours = Math.max((attempt.at.getTime() - previous.at.getTime()) / 3_600_000, 0);
+  // Same metro area: GeoIP city precision makes short hops meaningless
+  if (km < 100) return false;
+  return hours === 0 || km / hours > config.maxTravelSpeedKmh;
+};
+
+/**
+ * Score a sign-in attempt against the account's history
+ */
+export const evaluateRisk = (input: RiskInput, config: RiskConfig = DEFAULT_RISK_CONFIG): RiskAssessment => {
+  const { attempt, history, recentFailures } = input;
+  const signals: RiskSignal[] = [];
+  const hasHistory = history.length >= config.minHistory;
+
+  if (hasHistory && !history.some((prior) => prior.device === attempt.device)) {
+    signals.push("new-device");
+  }
+
+  if (hasHistory && !history.some((prior) => ipRange(prior.ipAddress) === ipRange(attempt.ipAddress))) {
+    signals.push("new-ip-range");
+  }
+
+  const hour = attempt.at.getUTCHours();
+  if (
+    hasHistory &&
+    !history.some((prior) => hourDistance(prior.at.getUTCHours(), hour) <= config.usualHourTolerance)
+  ) {
+    signals.push("unusual-time");
+  }
+
+  if (recentFailures >= config.recentFailureThreshold) {
+    signals.push("recent-failures");
+  }
+
+  if (isImpossibleTravel(attempt, history[0], config)) {
+    signals.push("impossible-travel");
+  }
+
+  const score = signals.reduce((total, signal) => total + config.weights[signal], 0);
+  const decision: RiskDecision =
+    score >= config.denyThreshold ? "deny" : score >= config.stepUpThreshold ? "step-up" : "allow";
+
+  return { score, signals, decision };
+};
+
+/**
+ * DEFAULT_RISK_CONFIG with overrides from RISK_ENGINE_CONFIG (JSON, any subset of RiskConfig)
+ */
+export const loadRiskConfig = (): RiskConfig => {
+  const overrides = getConfig().riskOverrides;
+  if (!overrides) return DEFAULT_RISK_CONFIG;
+
+  return {
+    ...DEFAULT_RISK_CONFIG,
+    ...overrides,
+    weights: { ...DEFAULT_RISK_CONFIG.weights, ...overrides.weights },
+  };
+};
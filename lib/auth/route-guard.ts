@@ -0,0 +1,36 @@
+// lib/auth/route-guard.ts
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { getCurrentUser } from "@/lib/actions/auth.actions";
+import { checkCurrentSessionPolicy } from "@/lib/auth/session-policy";
+import { revokeSessionRecord } from "@/lib/auth/session-store";
+import type { UserRecord } from "@/lib/repositories";
+
+/**
+ * Server-side gate for the pages of the (protected) group: signed in, and a session that
+ * satisfies the factor policies of the page's route. Every page calls it itself, because
+ * the shared layout isn't rendered again on client-side navigation and so would only ever
+ * check the route the user first landed on.
+ */
+export const guardRoute = async (route: string): Promise<UserRecord> => {
+  // The middleware forwards the full path, query included, to come back to
+  const returnTo = headers().get("x-pathname") ?? route;
+
+  const currentUser = await getCurrentUser();
+  if (!currentUser.success || !currentUser.data) {
+    redirect(`/sign-in?redirectTo=${encodeURIComponent(returnTo)}`);
+  }
+
+  const policy = await checkCurrentSessionPolicy(route);
+
+  if (policy?.decision.outcome === "expired") {
+    await revokeSessionRecord(policy.session);
+    redirect(`/sign-in?redirectTo=${encodeURIComponent(returnTo)}`);
+  }
+
+  if (policy?.decision.outcome === "step-up") {
+    redirect(`/step-up?redirectTo=${encodeURIComponent(returnTo)}`);
+  }
+
+  return currentUser.data;
+};
@@ -0,0 +1,39 @@
+// lib/auth/secret-box.ts
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { getConfig } from "@/lib/config";
+
+/**
+ * AES-256-GCM encryption for secrets stored at rest (e.g. TOTP seeds).
+ * Key is SECRET_ENCRYPTION_KEY: 32 bytes, base64 encoded.
+ * Output format: v1.<iv>.<auth tag>.<ciphertext>, each part base64url.
+ */
+
+const VERSION = "v1";
+
+const loadKey = (): Buffer => getConfig().secretEncryptionKey;
+
+export const encryptSecret = (plaintext: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", loadKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv, tag, ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64url")))
+    .join(".");
+};
+
+export const decryptSecret = (payload: string): string => {
+  const [version, iv, tag, ciphertext] = payload.split(".");
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error("Unsupported encrypted secret format");
+  }
+
+  const decipher = createDecipheriv("aes-256-gcm", loadKey(), Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64url")),
+    decipher.final(),
+  ]).toString("utf8");
+};
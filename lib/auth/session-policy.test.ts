@@ -0,0 +1,79 @@
+// lib/auth/session-policy.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getMySecurityActivity } from "@/lib/actions/audit.actions";
+import { changeMyEmail, getMySessions, revokeAllMySessions, revokeMySession } from "@/lib/actions/auth.actions";
+import { listPasskeys } from "@/lib/actions/passkey.actions";
+import { createSessionRecord } from "@/lib/auth/session-store";
+import { issueSessionToken, type AuthMethod } from "@/lib/auth/session-token";
+import { getRepositories } from "@/lib/repositories";
+import { cookies } from "@/tests/e2e/support/next-server";
+
+vi.mock("@/lib/config", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/config")>();
+  return {
+    ...actual,
+    getConfig: () =>
+      actual.loadConfig({
+        ...process.env,
+        AUTH_POLICIES: JSON.stringify([{ id: "settings-passkey", routes: ["/settings"], requireAnyOf: ["passkey"] }]),
+      }),
+  };
+});
+
+const EMAIL = "ada@example.com";
+let accountId: string;
+const STEP_UP_ERROR = "This action requires additional verification. Reload the page to continue.";
+
+/** Sign in as the test account with a session that has satisfied these factors */
+const signIn = async (amr: AuthMethod[]) => {
+  const { token, claims } = issueSessionToken({ accountId, amr });
+  await createSessionRecord({
+    sessionId: claims.sid,
+    accountId,
+    authMethod: amr[0],
+    amr,
+    expiresAt: new Date(claims.exp * 1000),
+  });
+  cookies().set("app-session", token);
+  return claims.sid;
+};
+
+/** Each settings action, called the way its page calls it */
+const ACTIONS = {
+  changeMyEmail: () => changeMyEmail({ email: "new@example.com" }),
+  getMySessions: () => getMySessions(),
+  revokeMySession: (sessionId: string) => revokeMySession({ sessionId }),
+  revokeAllMySessions: () => revokeAllMySessions(),
+  getMySecurityActivity: () => getMySecurityActivity(),
+  listPasskeys: () => listPasskeys(),
+};
+
+describe("settings actions", () => {
+  beforeEach(async () => {
+    ({ accountId } = await getRepositories().accounts.createEmailToken(EMAIL, "code"));
+    await getRepositories().users.create({
+      accountId,
+      userId: accountId,
+      fullName: "Ada Lovelace",
+      email: EMAIL,
+      avatar: null,
+      authMethod: "otp",
+      hasPasskey: false,
+      passKeyCount: 0,
+    });
+  });
+
+  it.each(Object.entries(ACTIONS))("%s enforces the policies of its route", async (_name, action) => {
+    const sessionId = await signIn(["totp"]);
+
+    expect(await action(sessionId)).toEqual({ success: false, error: STEP_UP_ERROR });
+    expect(await getRepositories().sessions.findBySessionId(sessionId)).toMatchObject({ revokedAt: null });
+    expect(await getRepositories().users.findByAccountId(accountId)).toMatchObject({ email: EMAIL });
+  });
+
+  it.each(Object.entries(ACTIONS))("%s runs for a session that satisfies them", async (_name, action) => {
+    const sessionId = await signIn(["passkey"]);
+
+    expect(await action(sessionId)).toMatchObject({ success: true });
+  });
+});
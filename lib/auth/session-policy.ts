@@ -0,0 +1,81 @@
+// lib/auth/session-policy.ts
+import { resolveCurrentSession } from "@/lib/auth/current-session";
+import { evaluatePolicies, type AuthPolicy, type PolicyDecision } from "@/lib/auth/policy-engine";
+import { secondFactorsFor } from "@/lib/auth/risk-assessment";
+import type { SessionRecord } from "@/lib/auth/session-store";
+import type { AuthMethod } from "@/lib/auth/session-token";
+import { getRepositories, type UserRecord } from "@/lib/repositories";
+import { getConfig } from "@/lib/config";
+
+/**
+ * Applies the declared AuthPolicy list to real sessions. Enforced by every protected page
+ * (guardRoute) and by sensitive server actions (per the route of the page that calls them).
+ */
+
+/**
+ * Policies in force. Declared as JSON in AUTH_POLICIES (an AuthPolicy[]); none by default.
+ */
+export const loadPolicies = (): AuthPolicy[] => getConfig().auth.policies;
+
+/** Groups are Appwrite user labels; only fetched when some policy is group-scoped */
+const getUserGroups = async (accountId: string, policies: AuthPolicy[]) => {
+  if (!policies.some((policy) => policy.groups?.length)) return [];
+  return getRepositories().accounts.getLabels(accountId);
+};
+
+export const checkSessionPolicy = async (
+  session: SessionRecord,
+  route: string
+): Promise<PolicyDecision> => {
+  const policies = loadPolicies();
+  if (policies.length === 0) return { outcome: "allow" };
+
+  return evaluatePolicies(policies, {
+    route,
+    accountId: session.accountId,
+    groups: await getUserGroups(session.accountId, policies),
+    amr: session.amr,
+    sessionAgeSeconds: (Date.now() - new Date(session.$createdAt).getTime()) / 1000,
+  });
+};
+
+/**
+ * Policy decision for the current request's session on a route; null when signed out
+ */
+export const checkCurrentSessionPolicy = async (route: string) => {
+  const session = await resolveCurrentSession();
+  if (!session) return null;
+  return { session, decision: await checkSessionPolicy(session, route) };
+};
+
+/**
+ * Enrolled factors the user could add to satisfy a step-up
+ */
+export const stepUpMethodsFor = (
+  user: UserRecord,
+  session: SessionRecord,
+  decision: PolicyDecision
+): AuthMethod[] => {
+  if (decision.outcome !== "step-up") return [];
+  const candidates = secondFactorsFor(user, session.amr);
+  const { anyOf } = decision.requirement;
+  return anyOf.length > 0 ? candidates.filter((method) => anyOf.includes(method)) : candidates;
+};
+
+/**
+ * Gate for sensitive server actions: null when the current session satisfies the policies
+ * of the route the action belongs to, otherwise the error to return.
+ */
+export const enforceActionPolicy = async (route: string): Promise<string | null> => {
+  const result = await checkCurrentSessionPolicy(route);
+  if (!result) return "Not signed in";
+
+  switch (result.decision.outcome) {
+    case "expired":
+      return "Your session has expired. Please sign in again.";
+    case "step-up":
+      return "This action requires additional verification. Reload the page to continue.";
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,116 @@
+// lib/auth/session-store.ts
+import { describeDevice, getRequestContext } from "@/lib/auth/request-context";
+import type { AuthMethod } from "@/lib/auth/session-token";
+import { getRepositories, type SessionRecord } from "@/lib/repositories";
+
+/**
+ * Server-side record of every signed-in session (OTP and passkey).
+ * getCurrentUser only accepts a session whose record exists and is not revoked,
+ * so revoking a record signs that browser out on its next request.
+ */
+export type { SessionRecord };
+
+/** Don't write lastSeenAt on every request */
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const isActive = (record: SessionRecord) =>
+  !record.revokedAt && new Date(record.expiresAt).getTime() > Date.now();
+
+export const createSessionRecord = async ({
+  sessionId,
+  accountId,
+  authMethod,
+  amr = [authMethod],
+  expiresAt,
+}: {
+  sessionId: string;
+  accountId: string;
+  authMethod: AuthMethod;
+  amr?: AuthMethod[];
+  expiresAt: Date;
+}): Promise<SessionRecord> => {
+  const { ipAddress, userAgent } = await getRequestContext();
+  const now = new Date().toISOString();
+
+  return getRepositories().sessions.create({
+    sessionId,
+    accountId,
+    authMethod,
+    amr,
+    verifiedAt: now,
+    device: describeDevice(userAgent),
+    userAgent,
+    ipAddress,
+    lastSeenAt: now,
+    expiresAt: expiresAt.toISOString(),
+    revokedAt: null,
+  });
+};
+
+/**
+ * Look up a session by id. Returns null when it is unknown, revoked or expired.
+ * Refreshes lastSeenAt as a side effect.
+ */
+export const getActiveSessionRecord = async (
+  sessionId: string
+): Promise<SessionRecord | null> => {
+  const { sessions } = getRepositories();
+
+  const stored = await sessions.findBySessionId(sessionId);
+  if (!stored || !isActive(stored)) return null;
+  // Records created before AMR tracking only know their opening factor and creation time
+  const record = {
+    ...stored,
+    amr: stored.amr?.length ? stored.amr : [stored.authMethod],
+    verifiedAt: stored.verifiedAt ?? stored.$createdAt,
+  };
+
+  if (Date.now() - new Date(record.lastSeenAt).getTime() > LAST_SEEN_RESOLUTION_MS) {
+    const { ipAddress } = await getRequestContext();
+    await sessions.update(record.$id, { lastSeenAt: new Date().toISOString(), ipAddress });
+  }
+
+  return record;
+};
+
+/**
+ * Add factors satisfied by a step-up or re-auth to the session's AMR, and mark it freshly verified
+ */
+export const addSessionFactors = async (record: SessionRecord, factors: AuthMethod[]) => {
+  const amr = Array.from(new Set([...record.amr, ...factors]));
+  const verifiedAt = new Date().toISOString();
+
+  await getRepositories().sessions.update(record.$id, { amr, verifiedAt });
+
+  return { ...record, amr, verifiedAt };
+};
+
+/**
+ * Active sessions of a user, most recently used first
+ */
+export const listSessionRecords = async (accountId: string): Promise<SessionRecord[]> => {
+  const records = await getRepositories().sessions.listUnrevokedByAccountId(accountId);
+  return records.filter(isActive);
+};
+
+/**
+ * Mark a session revoked. OTP sessions are also deleted on the Appwrite side.
+ */
+export const revokeSessionRecord = async (record: SessionRecord) => {
+  await getRepositories().sessions.update(record.$id, { revokedAt: new Date().toISOString() });
+
+  if (record.authMethod === "otp") {
+    try {
+      await getRepositories().accounts.deleteSession(record.accountId, record.sessionId);
+    } catch (error) {
+      // Already gone on Appwrite's side — our record is what getCurrentUser checks
+      console.warn("Failed to delete Appwrite session", error);
+    }
+  }
+};
+
+export const revokeAllSessionRecords = async (accountId: string) => {
+  const records = await listSessionRecords(accountId);
+  await Promise.all(records.map(revokeSessionRecord));
+  return records.length;
+};
@@ -0,0 +1,133 @@
+// lib/auth/session-token.test.ts
+import { createHmac } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  issueLoginTicket,
+  issueSessionToken,
+  issueStepUpTicket,
+  SESSION_TTL_SECONDS,
+  verifyLoginTicket,
+  verifySessionToken,
+  verifyStepUpTicket,
+} from "@/lib/auth/session-token";
+
+const keyring = vi.hoisted(() => ({ keys: "old:old-signing-secret-at-least-32-characters" }));
+
+const OLD_KEY = keyring.keys;
+const NEW_KEY = "new:new-signing-secret-at-least-32-characters";
+
+// Reloaded on every call, so a test can rotate the keyring between issuing and verifying
+vi.mock("@/lib/config", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/config")>();
+  return {
+    ...actual,
+    getConfig: () => actual.loadConfig({ ...process.env, SESSION_SIGNING_KEYS: keyring.keys }),
+  };
+});
+
+const decode = (segment: string) => JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/** Re-sign a header and payload with a key of our choosing */
+const signWith = (header: object, payload: object, secret: string) => {
+  const input = `${encode(header)}.${encode(payload)}`;
+  return `${input}.${createHmac("sha256", secret).update(input).digest("base64url")}`;
+};
+
+const issueSession = () => issueSessionToken({ accountId: "account-1", amr: ["passkey"] }).token;
+
+describe("session tokens", () => {
+  beforeEach(() => {
+    keyring.keys = OLD_KEY;
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("verifies a token it issued", () => {
+    expect(verifySessionToken(issueSession())).toMatchObject({ typ: "session", sub: "account-1", amr: ["passkey"] });
+  });
+
+  it("rejects a tampered payload", () => {
+    const [header, payload, signature] = issueSession().split(".");
+    const forged = encode({ ...decode(payload), sub: "account-2" });
+
+    expect(verifySessionToken(`${header}.${forged}.${signature}`)).toBeNull();
+  });
+
+  it("rejects a tampered signature", () => {
+    const [header, payload, signature] = issueSession().split(".");
+    const flipped = Buffer.from(signature, "base64url");
+    flipped[0] ^= 1;
+
+    expect(verifySessionToken(`${header}.${payload}.${flipped.toString("base64url")}`)).toBeNull();
+  });
+
+  it("rejects a token signed with a key outside the keyring", () => {
+    const [header, payload] = issueSession().split(".");
+
+    expect(verifySessionToken(signWith({ ...decode(header), kid: "other" }, decode(payload), "x".repeat(40)))).toBeNull();
+    expect(verifySessionToken(signWith({ ...decode(header), kid: "old" }, decode(payload), "x".repeat(40)))).toBeNull();
+  });
+
+  it("rejects other algorithms and malformed tokens", () => {
+    const [header, payload] = issueSession().split(".");
+
+    expect(verifySessionToken(`${encode({ ...decode(header), alg: "none" })}.${payload}.`)).toBeNull();
+    expect(verifySessionToken("not-a-token")).toBeNull();
+    expect(verifySessionToken("a.b.c")).toBeNull();
+  });
+
+  it("rejects an expired token", () => {
+    const token = issueSession();
+
+    vi.advanceTimersByTime(SESSION_TTL_SECONDS * 1000 - 1000);
+    expect(verifySessionToken(token)).not.toBeNull();
+
+    vi.advanceTimersByTime(1000);
+    expect(verifySessionToken(token)).toBeNull();
+  });
+
+  it("accepts each token only as its own type", () => {
+    const loginTicket = issueLoginTicket({ accountId: "account-1", amr: ["passkey"] });
+    const stepUpTicket = issueStepUpTicket({ accountId: "account-1", amr: ["otp"] });
+    const session = issueSession();
+
+    expect(verifySessionToken(loginTicket)).toBeNull();
+    expect(verifySessionToken(stepUpTicket)).toBeNull();
+    expect(verifyLoginTicket(session)).toBeNull();
+    expect(verifyLoginTicket(stepUpTicket)).toBeNull();
+    expect(verifyStepUpTicket(loginTicket)).toBeNull();
+
+    expect(verifyLoginTicket(loginTicket)).not.toBeNull();
+    expect(verifyStepUpTicket(stepUpTicket)).not.toBeNull();
+  });
+
+  describe("key rotation", () => {
+    it("signs with the first key and still verifies tokens of the old one", () => {
+      const oldToken = issueSession();
+
+      keyring.keys = `${NEW_KEY},${OLD_KEY}`;
+      const newToken = issueSession();
+
+      expect(decode(newToken.split(".")[0]).kid).toBe("new");
+      expect(verifySessionToken(oldToken)).not.toBeNull();
+      expect(verifySessionToken(newToken)).not.toBeNull();
+    });
+
+    it("stops verifying tokens of a key once it is removed", () => {
+      const oldToken = issueSession();
+      keyring.keys = `${NEW_KEY},${OLD_KEY}`;
+      const newToken = issueSession();
+
+      keyring.keys = NEW_KEY;
+
+      expect(verifySessionToken(oldToken)).toBeNull();
+      expect(verifySessionToken(newToken)).not.toBeNull();
+    });
+  });
+});
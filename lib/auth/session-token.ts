@@ -0,0 +1,272 @@
+// lib/auth/session-token.ts
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { getConfig } from "@/lib/config";
+
+/**
+ * Signed tokens for the custom passkey session.
+ *
+ * Format is a compact JWS (HS256): base64url(header).base64url(claims).base64url(signature).
+ * Keys come from SESSION_SIGNING_KEYS as a comma-separated keyring of `kid:secret` pairs.
+ * The first key signs new tokens; every key in the ring is accepted for verification,
+ * so a key can be rotated by prepending a new one and removing the old one once
+ * all tokens signed with it have expired.
+ */
+
+export type AuthMethod = "otp" | "passkey" | "totp" | "recovery";
+
+export type TokenType = "session" | "login-ticket" | "step-up-ticket" | "magic-link-state" | "enrollment-ticket";
+
+interface BaseClaims {
+  typ: TokenType;
+  /** Issued-at, seconds since epoch */
+  iat: number;
+  /** Expiry, seconds since epoch */
+  exp: number;
+}
+
+interface UserClaims extends BaseClaims {
+  /** accountId of the user */
+  sub: string;
+  /** Authentication methods satisfied (RFC 8176 style) */
+  amr: AuthMethod[];
+}
+
+export interface SessionClaims extends UserClaims {
+  typ: "session";
+  /** Session id */
+  sid: string;
+}
+
+export interface LoginTicketClaims extends UserClaims {
+  typ: "login-ticket";
+  /** The factor is suspect (e.g. a possibly cloned passkey) and can't sign in on its own */
+  requiresSecondFactor?: true;
+}
+
+/** A sign-in that verified one factor but needs another before it gets a session */
+export interface StepUpTicketClaims extends UserClaims {
+  typ: "step-up-ticket";
+}
+
+/**
+ * Travels in an emailed sign-in link. Binds the link to the browser that asked for it:
+ * bnd is the hash of a nonce kept in that browser's cookie.
+ */
+export interface MagicLinkStateClaims extends BaseClaims {
+  typ: "magic-link-state";
+  /** accountId the link signs in to */
+  sub: string;
+  /** base64url SHA-256 of the binding nonce */
+  bnd: string;
+  /** Where to go after signing in (already sanitized) */
+  rdr: string;
+  /** Device that requested the link, shown when it is opened somewhere else */
+  dev: string;
+}
+
+/** Proof that the email address was verified, which lets a new account enroll a passkey */
+export interface EnrollmentTicketClaims extends BaseClaims {
+  typ: "enrollment-ticket";
+  /** accountId the passkey may be added to */
+  sub: string;
+}
+
+interface SigningKey {
+  kid: string;
+  secret: string;
+}
+
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+const LOGIN_TICKET_TTL_SECONDS = 60;
+/** Long enough to open an authenticator app or read an email */
+const STEP_UP_TICKET_TTL_SECONDS = 5 * 60;
+export const MAGIC_LINK_TTL_SECONDS = 15 * 60;
+/** Long enough to go through the browser's passkey prompt */
+const ENROLLMENT_TICKET_TTL_SECONDS = 10 * 60;
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+const encodeSegment = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const decodeSegment = <T>(segment: string): T =>
+  JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+
+const loadKeyring = (): SigningKey[] => getConfig().session.signingKeys;
+
+const sign = (input: string, secret: string) =>
+  createHmac("sha256", secret).update(input).digest();
+
+const signToken = <T extends BaseClaims>(claims: T): string => {
+  const [activeKey] = loadKeyring();
+  const header = encodeSegment({ alg: "HS256", typ: "JWT", kid: activeKey.kid });
+  const payload = encodeSegment(claims);
+  const signature = sign(`${header}.${payload}`, activeKey.secret).toString("base64url");
+  return `${header}.${payload}.${signature}`;
+};
+
+/**
+ * Verify signature, type and expiry. Returns null for anything that does not check out —
+ * callers treat an invalid token exactly like a missing one.
+ */
+const verifyToken = <T extends BaseClaims>(token: string, typ: TokenType): T | null => {
+  try {
+    const parts = token.split(".");
+    if (parts.length !== 3) return null;
+    const [header, payload, signature] = parts;
+
+    const { alg, kid } = decodeSegment<{ alg?: string; kid?: string }>(header);
+    if (alg !== "HS256" || !kid) return null;
+
+    const key = loadKeyring().find((k) => k.kid === kid);
+    if (!key) return null;
+
+    const expected = sign(`${header}.${payload}`, key.secret);
+    const actual = Buffer.from(signature, "base64url");
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    const claims = decodeSegment<T>(payload);
+    if (claims.typ !== typ) return null;
+    if (typeof claims.exp !== "number" || claims.exp <= nowInSeconds()) return null;
+
+    return claims;
+  } catch (error) {
+    console.error("Failed to verify token", error);
+    return null;
+  }
+};
+
+/**
+ * Issue a session token for an authenticated user
+ */
+export const issueSessionToken = ({
+  accountId,
+  amr,
+  ttlSeconds = SESSION_TTL_SECONDS,
+}: {
+  accountId: string;
+  amr: AuthMethod[];
+  ttlSeconds?: number;
+}): { token: string; claims: SessionClaims } => {
+  const iat = nowInSeconds();
+  const claims: SessionClaims = {
+    typ: "session",
+    sid: randomUUID(),
+    sub: accountId,
+    amr,
+    iat,
+    exp: iat + ttlSeconds,
+  };
+  return { token: signToken(claims), claims };
+};
+
+export const verifySessionToken = (token: string) => {
+  const claims = verifyToken<SessionClaims>(token, "session");
+  return claims && typeof claims.sub === "string" && typeof claims.sid === "string" ? claims : null;
+};
+
+/**
+ * Short-lived proof that a factor was verified server-side.
+ * Exchanged by createPasskeySession for a real session, so the session endpoint
+ * never has to trust a client-supplied accountId.
+ */
+export const issueLoginTicket = ({
+  accountId,
+  amr,
+  requiresSecondFactor = false,
+}: {
+  accountId: string;
+  amr: AuthMethod[];
+  requiresSecondFactor?: boolean;
+}): string => {
+  const iat = nowInSeconds();
+  return signToken({
+    typ: "login-ticket",
+    sub: accountId,
+    amr,
+    ...(requiresSecondFactor ? { requiresSecondFactor: true as const } : {}),
+    iat,
+    exp: iat + LOGIN_TICKET_TTL_SECONDS,
+  } satisfies LoginTicketClaims);
+};
+
+export const verifyLoginTicket = (token: string) => {
+  const claims = verifyToken<LoginTicketClaims>(token, "login-ticket");
+  return claims && typeof claims.sub === "string" ? claims : null;
+};
+
+/**
+ * Issued instead of a session when the risk check asks for a second factor.
+ * Carries the factors verified so far; presented again together with the next factor's proof.
+ */
+export const issueStepUpTicket = ({
+  accountId,
+  amr,
+}: {
+  accountId: string;
+  amr: AuthMethod[];
+}): string => {
+  const iat = nowInSeconds();
+  return signToken({
+    typ: "step-up-ticket",
+    sub: accountId,
+    amr,
+    iat,
+    exp: iat + STEP_UP_TICKET_TTL_SECONDS,
+  } satisfies StepUpTicketClaims);
+};
+
+export const verifyStepUpTicket = (token: string) => {
+  const claims = verifyToken<StepUpTicketClaims>(token, "step-up-ticket");
+  return claims && typeof claims.sub === "string" && Array.isArray(claims.amr) ? claims : null;
+};
+
+/**
+ * Signed state for an emailed sign-in link, see lib/auth/magic-link.ts
+ */
+export const issueMagicLinkState = ({
+  accountId,
+  bindingHash,
+  redirectTo,
+  device,
+}: {
+  accountId: string;
+  bindingHash: string;
+  redirectTo: string;
+  device: string;
+}): string => {
+  const iat = nowInSeconds();
+  return signToken({
+    typ: "magic-link-state",
+    sub: accountId,
+    bnd: bindingHash,
+    rdr: redirectTo,
+    dev: device,
+    iat,
+    exp: iat + MAGIC_LINK_TTL_SECONDS,
+  } satisfies MagicLinkStateClaims);
+};
+
+export const verifyMagicLinkState = (token: string) => {
+  const claims = verifyToken<MagicLinkStateClaims>(token, "magic-link-state");
+  return claims && typeof claims.sub === "string" && typeof claims.bnd === "string" ? claims : null;
+};
+
+/**
+ * Issued by verifySignUpEmail once the emailed code checks out. The passkey registration
+ * actions take it in place of a session, so a sign-up can only enroll on an address it controls.
+ */
+export const issueEnrollmentTicket = ({ accountId }: { accountId: string }): string => {
+  const iat = nowInSeconds();
+  return signToken({
+    typ: "enrollment-ticket",
+    sub: accountId,
+    iat,
+    exp: iat + ENROLLMENT_TICKET_TTL_SECONDS,
+  } satisfies EnrollmentTicketClaims);
+};
+
+export const verifyEnrollmentTicket = (token: string) => {
+  const claims = verifyToken<EnrollmentTicketClaims>(token, "enrollment-ticket");
+  return claims && typeof claims.sub === "string" ? claims : null;
+};
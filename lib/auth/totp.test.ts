@@ -0,0 +1,54 @@
+// lib/auth/totp.test.ts
+import { describe, expect, it } from "vitest";
+import { base32Decode, base32Encode, currentTimeStep, generateHotp, verifyTotp } from "@/lib/auth/totp";
+
+/** The RFC 6238 appendix B SHA-1 seed, "12345678901234567890" */
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("totp", () => {
+  it("encodes the RFC seed as base32 and back", () => {
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode(RFC_SECRET.toLowerCase()).toString()).toBe("12345678901234567890");
+  });
+
+  // RFC 6238 appendix B lists 8 digits; 6-digit codes are their last six
+  it.each([
+    [59, "94287082"],
+    [1111111109, "07081804"],
+    [1111111111, "14050471"],
+    [1234567890, "89005924"],
+    [2000000000, "69279037"],
+    [20000000000, "65353130"],
+  ])("matches the RFC 6238 SHA-1 vector at T=%i", (seconds, expected) => {
+    const step = currentTimeStep(seconds * 1000);
+    expect(generateHotp(RFC_SECRET, step)).toBe(expected.slice(-6));
+    expect(verifyTotp({ secret: RFC_SECRET, code: expected.slice(-6), now: seconds * 1000 })).toBe(step);
+  });
+
+  it("accepts one step of drift either side and nothing further", () => {
+    const now = 1234567890 * 1000;
+    const step = currentTimeStep(now);
+
+    for (const offset of [-1, 1]) {
+      const code = generateHotp(RFC_SECRET, step + offset);
+      expect(verifyTotp({ secret: RFC_SECRET, code, now })).toBe(step + offset);
+    }
+    for (const offset of [-2, 2]) {
+      const code = generateHotp(RFC_SECRET, step + offset);
+      expect(verifyTotp({ secret: RFC_SECRET, code, now })).toBeNull();
+    }
+  });
+
+  it("rejects steps at or before the last used one", () => {
+    const now = 1234567890 * 1000;
+    const step = currentTimeStep(now);
+    const code = generateHotp(RFC_SECRET, step);
+
+    expect(verifyTotp({ secret: RFC_SECRET, code, now, lastUsedStep: step })).toBeNull();
+    expect(verifyTotp({ secret: RFC_SECRET, code, now, lastUsedStep: step - 1 })).toBe(step);
+  });
+
+  it.each(["", "12345", "1234567", "12a456", " 123456"])("rejects the malformed code %j", (code) => {
+    expect(verifyTotp({ secret: RFC_SECRET, code })).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+// lib/auth/webauthn.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createAuthenticationOptions,
+  purgeExpiredChallenges,
+  verifyAuthentication,
+  type AuthenticationResponseJSON,
+} from "@/lib/auth/webauthn";
+
+const EXPIRED = "Login challenge expired. Please try again.";
+
+/** An assertion for a passkey nobody registered: verification gets past the challenge, then stops */
+const UNKNOWN_PASSKEY = {
+  id: "unknown-credential",
+  rawId: "unknown-credential",
+  type: "public-key",
+  response: { clientDataJSON: "", authenticatorData: "", signature: "" },
+  clientExtensionResults: {},
+} as AuthenticationResponseJSON;
+
+const answer = (ceremonyId: string) => verifyAuthentication(null, ceremonyId, UNKNOWN_PASSKEY);
+
+describe("WebAuthn challenges", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("answers a single verification, whether it verifies or not", async () => {
+    const { ceremonyId } = (await createAuthenticationOptions(null))!;
+
+    expect(await answer(ceremonyId)).toEqual({ verified: false, error: "This passkey is not registered" });
+    expect(await answer(ceremonyId)).toEqual({ verified: false, error: EXPIRED });
+  });
+
+  it("answers only one of several concurrent verifications", async () => {
+    const { ceremonyId } = (await createAuthenticationOptions(null))!;
+
+    const results = await Promise.all([answer(ceremonyId), answer(ceremonyId), answer(ceremonyId)]);
+
+    expect(results.filter((result) => !result.verified && result.error === EXPIRED)).toHaveLength(2);
+  });
+
+  it("expires after the ceremony timeout", async () => {
+    const { ceremonyId } = (await createAuthenticationOptions(null))!;
+
+    vi.advanceTimersByTime(60_001);
+
+    expect(await answer(ceremonyId)).toEqual({ verified: false, error: EXPIRED });
+  });
+
+  it("refuses an unknown ceremony", async () => {
+    expect(await answer("no-such-ceremony")).toEqual({ verified: false, error: EXPIRED });
+  });
+
+  it("purges only expired challenges", async () => {
+    await createAuthenticationOptions(null);
+    vi.advanceTimersByTime(30_000);
+    const { ceremonyId } = (await createAuthenticationOptions(null))!;
+    vi.advanceTimersByTime(30_001);
+
+    expect(await purgeExpiredChallenges()).toBe(1);
+    expect(await purgeExpiredChallenges()).toBe(0);
+    expect(await answer(ceremonyId)).toEqual({ verified: false, error: "This passkey is not registered" });
+  });
+});
@@ -0,0 +1,367 @@
+// lib/auth/webauthn.ts
+import { randomBytes } from "crypto";
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { decodeAttestationObject } from "@simplewebauthn/server/helpers";
+import { getConfig } from "@/lib/config";
+import {
+  createCredentialRecord,
+  flagCredentialCloned,
+  getCredentialRecord,
+  listCredentialRecords,
+  markCredentialUsed,
+  migrateLegacyCredential,
+  syncUserPasskeyFlags,
+  type CredentialRecord,
+} from "@/lib/auth/credential-store";
+import {
+  checkAuthenticatorPolicy,
+  ensureAuthenticatorMetadata,
+  getAuthenticatorModel,
+} from "@/lib/auth/authenticator-metadata";
+import { describeDevice, getRequestContext } from "@/lib/auth/request-context";
+import { getRepositories, type ChallengeRecord, type UserRecord } from "@/lib/repositories";
+
+/**
+ * The WebAuthn relying party: generates and verifies registration and authentication
+ * ceremonies, keeps each ceremony's challenge in the challenge store between its two round
+ * trips (under a ceremony id the browser sends back), and owns the
+ * base64url encoding of the binary fields. lib/actions/passkey.actions.ts exposes it to the UI.
+ */
+
+export type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+};
+
+/** Options for the browser, and the id to send back with its response */
+export interface Ceremony<T> {
+  ceremonyId: string;
+  options: T;
+}
+
+export type RegistrationResult =
+  | { verified: true; credential: CredentialRecord }
+  | { verified: false; error: string };
+
+/**
+ * user and credential are set on failures once the assertion was matched to them.
+ * counterRegressed: this assertion's signature counter didn't increase (the credential is
+ * now flagged with cloneSuspectedAt); callers apply the counter regression policy.
+ */
+export type AuthenticationResult =
+  | { verified: true; user: UserRecord; credential: CredentialRecord; counterRegressed: boolean }
+  | { verified: false; error: string; user?: UserRecord; credential?: CredentialRecord };
+
+/** Both ceremonies give the browser this long */
+const CEREMONY_TIMEOUT_MS = 60_000;
+
+export const toBase64Url = (bytes: Uint8Array): string => Buffer.from(bytes).toString("base64url");
+
+export const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> =>
+  new Uint8Array(Buffer.from(value, "base64url"));
+
+/** Stable per-account user handle, so discoverable logins can be mapped back to the account */
+const userHandleFor = (accountId: string) => new TextEncoder().encode(accountId);
+
+/* ----------------------
+   Challenge storage
+   ---------------------- */
+
+type CeremonyType = ChallengeRecord["type"];
+
+/** How often the background job clears out challenges nobody answered */
+const CHALLENGE_PURGE_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Keep a new ceremony's challenge until the browser's timeout runs out; returns the ceremony id */
+const storeChallenge = async (type: CeremonyType, challenge: string, accountId: string | null) => {
+  const ceremonyId = randomBytes(16).toString("hex");
+  await getRepositories().challenges.create({
+    ceremonyId,
+    type,
+    challenge,
+    accountId,
+    expiresAt: new Date(Date.now() + CEREMONY_TIMEOUT_MS).toISOString(),
+  });
+  return ceremonyId;
+};
+
+/**
+ * Take a ceremony's challenge out of the store. It answers a single verification, whether
+ * that verifies or not; null when it is unknown, used, expired or for another ceremony.
+ */
+const consumeChallenge = async (
+  ceremonyId: string,
+  type: CeremonyType,
+  accountId: string | null
+): Promise<string | null> => {
+  const record = await getRepositories().challenges.consume(ceremonyId);
+  if (!record || record.type !== type || record.accountId !== accountId) return null;
+  return new Date(record.expiresAt).getTime() > Date.now() ? record.challenge : null;
+};
+
+/** Delete expired challenges; returns how many went */
+export const purgeExpiredChallenges = () => getRepositories().challenges.deleteExpired(new Date());
+
+const globalForPurge = globalThis as unknown as { challengePurgeTimer?: NodeJS.Timeout };
+
+/**
+ * Run purgeExpiredChallenges in the background for the life of the process.
+ * Started once per server instance from instrumentation.ts.
+ */
+export const scheduleChallengePurge = () => {
+  if (globalForPurge.challengePurgeTimer) return;
+  globalForPurge.challengePurgeTimer = setInterval(() => {
+    purgeExpiredChallenges().catch((error) => console.error("Failed to purge expired WebAuthn challenges", error));
+  }, CHALLENGE_PURGE_INTERVAL_MS).unref();
+};
+
+/* ----------------------
+   Registration
+   ---------------------- */
+
+export const createRegistrationOptions = async (
+  user: UserRecord
+): Promise<Ceremony<PublicKeyCredentialCreationOptionsJSON>> => {
+  await migrateLegacyCredential(user);
+  const existingCredentials = await listCredentialRecords(user.accountId);
+  const { webauthn } = getConfig();
+
+  const options = await generateRegistrationOptions({
+    rpID: webauthn.rpId,
+    rpName: webauthn.rpName,
+    userName: user.email,
+    userDisplayName: user.fullName || user.email,
+    userID: userHandleFor(user.accountId),
+    timeout: CEREMONY_TIMEOUT_MS,
+    attestationType: webauthn.attestation.mode,
+    // Resident key is required for usernameless sign-in
+    authenticatorSelection: {
+      residentKey: "required",
+      userVerification: "preferred",
+    },
+    // Don't let the same authenticator be registered twice
+    excludeCredentials: existingCredentials.map((c) => ({
+      id: c.credentialId,
+      transports: c.transports,
+    })),
+  });
+
+  const ceremonyId = await storeChallenge("registration", options.challenge, user.accountId);
+  return { ceremonyId, options };
+};
+
+/**
+ * In direct mode, the reason a verified attestation still doesn't identify an approved
+ * model: no attestation, self attestation (nothing vouches for the model), a model the
+ * snapshot doesn't know, or one the AAGUID lists refuse
+ */
+const checkAttestedModel = async (
+  fmt: string,
+  attestationObject: Uint8Array<ArrayBuffer>,
+  aaguid: string
+): Promise<{ error: string } | { model: string }> => {
+  const x5c = decodeAttestationObject(attestationObject).get("attStmt").get("x5c");
+  if (fmt === "none" || !x5c?.length) {
+    return { error: "This authenticator did not provide a verifiable attestation" };
+  }
+
+  const model = await getAuthenticatorModel(aaguid);
+  if (!model) return { error: "This security key model is not recognised" };
+
+  const policyError = checkAuthenticatorPolicy(aaguid);
+  return policyError ? { error: policyError } : { model };
+};
+
+/**
+ * Verify an attestation against the user's pending challenge and store the new credential,
+ * named after the device it was created on. In direct mode the attestation chain is checked
+ * against the FIDO metadata snapshot and the model must pass the AAGUID lists.
+ */
+export const verifyRegistration = async (
+  user: UserRecord,
+  ceremonyId: string,
+  response: RegistrationResponseJSON
+): Promise<RegistrationResult> => {
+  const expectedChallenge = await consumeChallenge(ceremonyId, "registration", user.accountId);
+  if (!expectedChallenge) return { verified: false, error: "Registration timed out. Please try again." };
+
+  const { webauthn } = getConfig();
+  const enterprise = webauthn.attestation.mode === "direct";
+  if (enterprise) await ensureAuthenticatorMetadata();
+
+  const verification = await verifyRegistrationResponse({
+    response,
+    expectedChallenge,
+    expectedOrigin: webauthn.origins,
+    expectedRPID: webauthn.rpId,
+  });
+  if (!verification.verified || !verification.registrationInfo) {
+    return { verified: false, error: "WebAuthn registration verification failed" };
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp, aaguid, fmt, attestationObject } =
+    verification.registrationInfo;
+
+  let authenticatorModel: string | null = null;
+  if (enterprise) {
+    const attested = await checkAttestedModel(fmt, attestationObject, aaguid);
+    if ("error" in attested) return { verified: false, error: attested.error };
+    authenticatorModel = attested.model;
+  }
+
+  const { userAgent } = await getRequestContext();
+
+  const record = await createCredentialRecord({
+    credentialId: credential.id,
+    accountId: user.accountId,
+    userHandle: toBase64Url(userHandleFor(user.accountId)),
+    name: describeDevice(userAgent),
+    deviceType: credentialDeviceType,
+    backedUp: credentialBackedUp,
+    publicKey: toBase64Url(credential.publicKey),
+    counter: credential.counter,
+    transports: credential.transports ?? response.response.transports ?? [],
+    aaguid,
+    authenticatorModel,
+  });
+
+  await getRepositories().users.update(user.$id, { authMethod: "passkey" });
+  await syncUserPasskeyFlags(user);
+
+  return { verified: true, credential: record };
+};
+
+/* ----------------------
+   Authentication
+   ---------------------- */
+
+/**
+ * Options for an email-first login (the user's credentials are listed), or for a
+ * discoverable login when user is null (the browser offers every resident passkey).
+ * Null when the user has no passkey.
+ */
+export const createAuthenticationOptions = async (
+  user: UserRecord | null
+): Promise<Ceremony<PublicKeyCredentialRequestOptionsJSON> | null> => {
+  const { webauthn } = getConfig();
+
+  if (!user) {
+    const options = await generateAuthenticationOptions({
+      rpID: webauthn.rpId,
+      timeout: CEREMONY_TIMEOUT_MS,
+      userVerification: "preferred",
+      allowCredentials: [],
+    });
+    const ceremonyId = await storeChallenge("authentication", options.challenge, null);
+    return { ceremonyId, options };
+  }
+
+  await migrateLegacyCredential(user);
+  const credentials = await listCredentialRecords(user.accountId);
+  if (credentials.length === 0) return null;
+
+  const options = await generateAuthenticationOptions({
+    rpID: webauthn.rpId,
+    timeout: CEREMONY_TIMEOUT_MS,
+    userVerification: "preferred",
+    allowCredentials: credentials.map((c) => ({
+      id: c.credentialId,
+      transports: c.transports,
+    })),
+  });
+
+  const ceremonyId = await storeChallenge("authentication", options.challenge, user.accountId);
+  return { ceremonyId, options };
+};
+
+/**
+ * A signature counter that doesn't increase, on a credential whose counter has started,
+ * means two copies of the key are in use. Authenticators that don't count report 0 forever.
+ */
+const isCounterRegression = (storedCounter: number, newCounter: number) =>
+  storedCounter > 0 && newCounter <= storedCounter;
+
+/**
+ * Verify an assertion. With a user it answers that user's email-first challenge; without
+ * one it answers the discoverable challenge and the user is resolved from the credential,
+ * whose userHandle must match the one stored at registration.
+ * Persists the new signature counter and backup state on success; a counter regression
+ * flags the credential but still verifies, so callers can decide what it may do.
+ */
+export const verifyAuthentication = async (
+  user: UserRecord | null,
+  ceremonyId: string,
+  response: AuthenticationResponseJSON
+): Promise<AuthenticationResult> => {
+  const expectedChallenge = await consumeChallenge(ceremonyId, "authentication", user?.accountId ?? null);
+  if (!expectedChallenge) return { verified: false, error: "Login challenge expired. Please try again." };
+
+  const credential = await getCredentialRecord(response.id);
+  if (!credential) return { verified: false, error: "This passkey is not registered" };
+
+  if (user && credential.accountId !== user.accountId) {
+    return { verified: false, error: "No stored WebAuthn credential for user" };
+  }
+  if (!user) {
+    const userHandle = response.response.userHandle;
+    if (!userHandle || !credential.userHandle || userHandle !== credential.userHandle) {
+      return { verified: false, error: "Passkey does not belong to a known account" };
+    }
+  }
+
+  const owner = user ?? (await getRepositories().users.findByAccountId(credential.accountId));
+  if (!owner) return { verified: false, error: "User not found for WebAuthn login verification" };
+
+  const { webauthn } = getConfig();
+  const storedCounter = credential.counter ?? 0;
+  let counterRegressed = false;
+  let updated: CredentialRecord;
+  try {
+    const verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: webauthn.origins,
+      expectedRPID: webauthn.rpId,
+      credential: {
+        id: credential.credentialId,
+        publicKey: fromBase64Url(credential.publicKey),
+        // The library throws on a counter regression; it's checked below, after the signature
+        counter: 0,
+        transports: credential.transports,
+      },
+    });
+    if (!verification.verified) {
+      return { verified: false, error: "Passkey verification failed", user: owner, credential };
+    }
+
+    const { newCounter, credentialBackedUp } = verification.authenticationInfo;
+    counterRegressed = isCounterRegression(storedCounter, newCounter);
+
+    // Never move the counter back, or the clone would pass the next check
+    updated = await markCredentialUsed(credential, {
+      counter: Math.max(storedCounter, newCounter),
+      backedUp: credentialBackedUp,
+    });
+    if (counterRegressed) updated = await flagCredentialCloned(updated);
+  } catch (error) {
+    return {
+      verified: false,
+      error: (error instanceof Error && error.message) || "Passkey verification failed",
+      user: owner,
+      credential,
+    };
+  }
+
+  return { verified: true, user: owner, credential: updated, counterRegressed };
+};
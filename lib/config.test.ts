@@ -0,0 +1,24 @@
+// lib/config.test.ts
+import { describe, expect, it } from "vitest";
+import { ConfigError, loadConfig } from "@/lib/config";
+
+describe("mail settings", () => {
+  it("requires SMTP_URL for the smtp provider", () => {
+    expect(() => loadConfig({ ...process.env, MAIL_PROVIDER: "smtp" })).toThrow(ConfigError);
+    expect(() => loadConfig({ ...process.env, MAIL_PROVIDER: "smtp" })).toThrow(
+      "SMTP_URL: is required when MAIL_PROVIDER is smtp"
+    );
+  });
+
+  it("carries the SMTP URL with the smtp provider", () => {
+    const { mail } = loadConfig({ ...process.env, MAIL_PROVIDER: "smtp", SMTP_URL: "smtp://mail.example.com:587" });
+
+    expect(mail).toMatchObject({ provider: "smtp", smtpUrl: "smtp://mail.example.com:587" });
+  });
+
+  it("has no SMTP URL for the outboxes", () => {
+    const { mail } = loadConfig({ ...process.env, MAIL_PROVIDER: "memory", SMTP_URL: "smtp://mail.example.com:587" });
+
+    expect(mail).toMatchObject({ provider: "memory", smtpUrl: null });
+  });
+});
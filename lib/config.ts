@@ -0,0 +1,352 @@
+// lib/config.ts
+import { z } from "zod";
+
+/**
+ * Typed server configuration. Every setting the app reads from the environment is
+ * declared and validated here; getConfig() checks all of them at once and throws a
+ * ConfigError listing each missing or invalid one. instrumentation.ts calls it at boot,
+ * so a misconfigured deploy fails on start instead of on the first sign-in.
+ *
+ * APP_ENV picks a profile: "development", "test" or "production" (default from NODE_ENV).
+ * Profiles only supply defaults. Development and test fall back to localhost for WebAuthn
+ * and to a mail outbox instead of SMTP, test to the in-memory stores; production has no fallbacks.
+ */
+
+export type AppEnvironment = "development" | "test" | "production";
+
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+const LOCALHOST_WEBAUTHN = {
+  WEBAUTHN_RP_ID: "localhost",
+  WEBAUTHN_RP_NAME: "My Localhost Machine",
+  WEBAUTHN_ORIGINS: "http://localhost:3000",
+};
+
+const PROFILE_DEFAULTS: Record<AppEnvironment, Record<string, string>> = {
+  development: { ...LOCALHOST_WEBAUTHN, MAIL_PROVIDER: "file" },
+  test: { ...LOCALHOST_WEBAUTHN, DATA_STORE: "memory", RATE_LIMIT_STORE: "memory", MAIL_PROVIDER: "memory" },
+  production: {},
+};
+
+/** Shortest secret accepted in SESSION_SIGNING_KEYS */
+const MIN_SIGNING_SECRET_LENGTH = 32;
+
+const AUTH_METHODS = ["otp", "passkey", "totp", "recovery"] as const;
+const RISK_SIGNALS = ["new-device", "new-ip-range", "unusual-time", "recent-failures", "impossible-travel"] as const;
+
+const required = () => z.string({ error: "is required" }).min(1, "is required");
+
+const commaList = required().transform((raw) =>
+  raw
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+);
+
+const aaguid = z
+  .string()
+  .transform((value) => value.toLowerCase())
+  .pipe(z.guid({ error: "entries must be AAGUIDs like cb69481e-8ff7-4039-93ec-0a2729a154a8" }));
+
+const json = <T extends z.ZodType>(schema: T) =>
+  z
+    .string()
+    .transform((raw, ctx) => {
+      try {
+        return JSON.parse(raw) as unknown;
+      } catch {
+        ctx.addIssue({ code: "custom", message: "must be valid JSON" });
+        return z.NEVER;
+      }
+    })
+    .pipe(schema);
+
+const origin = z.string().refine((value) => {
+  try {
+    return new URL(value).origin === value;
+  } catch {
+    return false;
+  }
+}, "must be origins like https://example.com (scheme, host and port only)");
+
+const signingKey = z.string().transform((entry, ctx) => {
+  const separator = entry.indexOf(":");
+  const kid = entry.slice(0, separator);
+  const secret = entry.slice(separator + 1);
+  if (separator <= 0) {
+    ctx.addIssue({ code: "custom", message: "entries must be kid:secret" });
+  } else if (secret.length < MIN_SIGNING_SECRET_LENGTH) {
+    ctx.addIssue({ code: "custom", message: `key "${kid}" must be at least ${MIN_SIGNING_SECRET_LENGTH} characters` });
+  }
+  return { kid, secret };
+});
+
+const encryptionKey = required().transform((raw, ctx) => {
+  const key = Buffer.from(raw, "base64");
+  if (key.length !== 32) ctx.addIssue({ code: "custom", message: "must be 32 bytes, base64 encoded" });
+  return key;
+});
+
+const authPolicy = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  routes: z.array(z.string()).optional(),
+  groups: z.array(z.string()).optional(),
+  users: z.array(z.string()).optional(),
+  requireAnyOf: z.array(z.enum(AUTH_METHODS)).optional(),
+  minFactors: z.number().int().min(1).optional(),
+  whenOnly: z.array(z.enum(AUTH_METHODS)).optional(),
+  maxSessionAgeSeconds: z.number().positive().optional(),
+});
+
+const riskOverrides = z
+  .object({
+    weights: z.partialRecord(z.enum(RISK_SIGNALS), z.number()),
+    stepUpThreshold: z.number(),
+    denyThreshold: z.number(),
+    minHistory: z.number().int().min(0),
+    usualHourTolerance: z.number().min(0),
+    recentFailureWindowMinutes: z.number().positive(),
+    recentFailureThreshold: z.number().int().min(1),
+    maxTravelSpeedKmh: z.number().positive(),
+  })
+  .partial()
+  .strict();
+
+type MailTransport = { provider: "smtp"; smtpUrl: string } | { provider: "file" | "memory"; smtpUrl: null };
+
+/**
+ * MAIL_PROVIDER with its SMTP_URL, which smtp requires; typed so an smtp config always has one
+ */
+const mailTransport = (
+  provider: MailTransport["provider"],
+  smtpUrl: string | undefined,
+  ctx: z.RefinementCtx
+): MailTransport => {
+  if (provider !== "smtp") return { provider, smtpUrl: null };
+  if (!smtpUrl) {
+    ctx.addIssue({ code: "custom", path: ["SMTP_URL"], message: "is required when MAIL_PROVIDER is smtp" });
+    return z.NEVER;
+  }
+  return { provider, smtpUrl };
+};
+
+const envSchema = z
+  .object({
+    APP_ENV: z.enum(["development", "test", "production"], { error: "must be development, test or production" }),
+
+    WEBAUTHN_RP_ID: required(),
+    WEBAUTHN_RP_NAME: required(),
+    /** Comma-separated; every origin the site is served from */
+    WEBAUTHN_ORIGINS: commaList.pipe(z.array(origin).min(1, "is required")),
+    /** "direct" is the enterprise mode: attestation verified against the FIDO MDS snapshot */
+    WEBAUTHN_ATTESTATION: z.enum(["none", "direct"], { error: "must be none or direct" }).default("none"),
+    WEBAUTHN_MDS_PATH: z.string().optional(),
+    WEBAUTHN_AAGUID_ALLOWLIST: commaList.pipe(z.array(aaguid)).optional(),
+    WEBAUTHN_AAGUID_DENYLIST: commaList.pipe(z.array(aaguid)).optional(),
+    /** What a passkey flagged as cloned (its signature counter went backwards) may still do */
+    WEBAUTHN_COUNTER_REGRESSION: z.enum(["block", "step-up"], { error: "must be block or step-up" }).default("block"),
+
+    DATA_STORE: z.enum(["appwrite", "memory"], { error: "must be appwrite or memory" }).default("appwrite"),
+    RATE_LIMIT_STORE: z.enum(["memory", "appwrite"], { error: "must be memory or appwrite" }).default("memory"),
+
+    NEXT_PUBLIC_APPWRITE_ENDPOINT: z.url({ error: "must be a URL" }).optional(),
+    NEXT_PUBLIC_APPWRITE_PROJECT: z.string().optional(),
+    NEXT_PUBLIC_APPWRITE_DATABASE: z.string().optional(),
+    NEXT_PUBLIC_APPWRITE_USERS_COLLECTION: z.string().optional(),
+    NEXT_PUBLIC_APPWRITE_SESSIONS_COLLECTION: z.string().optional(),
+    NEXT_PUBLIC_APPWRITE_CREDENTIALS_COLLECTION: z.string().optional(),
+    NEXT_PUBLIC_APPWRITE_AUDIT_LOG_COLLECTION: z.string().optional(),
+    NEXT_PUBLIC_APPWRITE_CHALLENGES_COLLECTION: z.string().optional(),
+    NEXT_PUBLIC_APPWRITE_LOCKS_COLLECTION: z.string().optional(),
+    NEXT_PUBLIC_APPWRITE_RATE_LIMITS_COLLECTION: z.string().optional(),
+    NEXT_PUBLIC_APPWRITE_FILES_COLLECTION: z.string().optional(),
+    NEXT_PUBLIC_APPWRITE_BUCKET: z.string().optional(),
+    NEXT_APPWRITE_KEY: z.string().optional(),
+
+    SESSION_SIGNING_KEYS: commaList.pipe(z.array(signingKey).min(1, "is required")),
+    SECRET_ENCRYPTION_KEY: encryptionKey,
+
+    AUTH_UNIFORM_RESPONSES: z.enum(["true", "false"], { error: "must be true or false" }).default("false"),
+    /** Offer emailed sign-in links next to the emailed code */
+    AUTH_MAGIC_LINKS: z.enum(["true", "false"], { error: "must be true or false" }).default("false"),
+    AUTH_MIN_RESPONSE_MS: z.coerce.number().int().min(0).default(1200),
+    AUTH_POLICIES: json(z.array(authPolicy)).optional(),
+    RISK_ENGINE_CONFIG: json(riskOverrides).optional(),
+
+    TOTP_ISSUER: z.string().default("Mfa System"),
+    TOTP_DRIFT_WINDOW: z.coerce.number().int().min(0).max(10).default(1),
+
+    /** "file" and "memory" keep mail in an outbox, viewable at /dev/outbox outside production */
+    MAIL_PROVIDER: z.enum(["smtp", "file", "memory"], { error: "must be smtp, file or memory" }).default("smtp"),
+    SMTP_URL: z.url({ error: "must be a URL" }).optional(),
+    MAIL_FROM: z.string().default("no-reply@localhost"),
+    MAIL_OUTBOX_DIR: z.string().default(".mail-outbox"),
+    /** Shown in subjects and the mail layout; defaults to WEBAUTHN_RP_NAME */
+    MAIL_BRAND_NAME: z.string().optional(),
+
+    GEOIP_DATABASE_PATH: z.string().optional(),
+    /** Proxies in front of the app that append the address they saw to X-Forwarded-For */
+    TRUSTED_PROXY_COUNT: z.coerce.number().int().min(0).default(1),
+  })
+  .superRefine((env, ctx) => {
+    if (env.WEBAUTHN_ATTESTATION === "direct" && !env.WEBAUTHN_MDS_PATH) {
+      ctx.addIssue({ code: "custom", path: ["WEBAUTHN_MDS_PATH"], message: "is required when WEBAUTHN_ATTESTATION is direct" });
+    }
+    // Without verified attestation the AAGUID is whatever the client claims
+    for (const list of ["WEBAUTHN_AAGUID_ALLOWLIST", "WEBAUTHN_AAGUID_DENYLIST"] as const) {
+      if (env[list] && env.WEBAUTHN_ATTESTATION !== "direct") {
+        ctx.addIssue({ code: "custom", path: [list], message: "needs WEBAUTHN_ATTESTATION=direct" });
+      }
+    }
+    if (env.WEBAUTHN_AAGUID_ALLOWLIST && env.WEBAUTHN_AAGUID_DENYLIST) {
+      ctx.addIssue({ code: "custom", path: ["WEBAUTHN_AAGUID_DENYLIST"], message: "can't be combined with WEBAUTHN_AAGUID_ALLOWLIST" });
+    }
+    for (const value of env.WEBAUTHN_ORIGINS) {
+      const { hostname, protocol } = new URL(value);
+      if (hostname !== env.WEBAUTHN_RP_ID && !hostname.endsWith(`.${env.WEBAUTHN_RP_ID}`)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["WEBAUTHN_ORIGINS"],
+          message: `${value} is not on WEBAUTHN_RP_ID (${env.WEBAUTHN_RP_ID}) or one of its subdomains`,
+        });
+      }
+      if (env.APP_ENV === "production" && protocol !== "https:") {
+        ctx.addIssue({ code: "custom", path: ["WEBAUTHN_ORIGINS"], message: `${value} must use https in production` });
+      }
+    }
+  })
+  .transform((env, ctx) => ({
+    env: env.APP_ENV,
+    webauthn: {
+      rpId: env.WEBAUTHN_RP_ID,
+      rpName: env.WEBAUTHN_RP_NAME,
+      /** Accepted origins of WebAuthn responses; a response from any of them verifies */
+      origins: env.WEBAUTHN_ORIGINS,
+      attestation: {
+        mode: env.WEBAUTHN_ATTESTATION,
+        /** Signed FIDO MDS3 BLOB; only read in direct mode */
+        mdsPath: env.WEBAUTHN_MDS_PATH ?? null,
+        /** Null accepts every authenticator the snapshot knows */
+        allowedAaguids: env.WEBAUTHN_AAGUID_ALLOWLIST ?? null,
+        deniedAaguids: env.WEBAUTHN_AAGUID_DENYLIST ?? [],
+      },
+      counterRegression: env.WEBAUTHN_COUNTER_REGRESSION,
+    },
+    dataStore: env.DATA_STORE,
+    rateLimitStore: env.RATE_LIMIT_STORE,
+    /** Settings no store needs may be empty; see missingAppwriteSettings */
+    appwrite: {
+      endpointUrl: env.NEXT_PUBLIC_APPWRITE_ENDPOINT ?? "",
+      projectId: env.NEXT_PUBLIC_APPWRITE_PROJECT ?? "",
+      databaseId: env.NEXT_PUBLIC_APPWRITE_DATABASE ?? "",
+      usersCollectionId: env.NEXT_PUBLIC_APPWRITE_USERS_COLLECTION ?? "",
+      sessionsCollectionId: env.NEXT_PUBLIC_APPWRITE_SESSIONS_COLLECTION ?? "",
+      credentialsCollectionId: env.NEXT_PUBLIC_APPWRITE_CREDENTIALS_COLLECTION ?? "",
+      auditLogCollectionId: env.NEXT_PUBLIC_APPWRITE_AUDIT_LOG_COLLECTION ?? "",
+      challengesCollectionId: env.NEXT_PUBLIC_APPWRITE_CHALLENGES_COLLECTION ?? "",
+      locksCollectionId: env.NEXT_PUBLIC_APPWRITE_LOCKS_COLLECTION ?? "",
+      rateLimitsCollectionId: env.NEXT_PUBLIC_APPWRITE_RATE_LIMITS_COLLECTION ?? "",
+      filesCollectionId: env.NEXT_PUBLIC_APPWRITE_FILES_COLLECTION ?? "",
+      bucketId: env.NEXT_PUBLIC_APPWRITE_BUCKET ?? "",
+      secretKey: env.NEXT_APPWRITE_KEY ?? "",
+    },
+    session: {
+      /** The first key signs; all of them verify */
+      signingKeys: env.SESSION_SIGNING_KEYS,
+    },
+    secretEncryptionKey: env.SECRET_ENCRYPTION_KEY,
+    auth: {
+      uniformResponses: env.AUTH_UNIFORM_RESPONSES === "true",
+      minResponseMs: env.AUTH_MIN_RESPONSE_MS,
+      magicLinks: env.AUTH_MAGIC_LINKS === "true",
+      policies: env.AUTH_POLICIES ?? [],
+    },
+    riskOverrides: env.RISK_ENGINE_CONFIG ?? null,
+    totp: {
+      issuer: env.TOTP_ISSUER,
+      driftWindow: env.TOTP_DRIFT_WINDOW,
+    },
+    mail: {
+      ...mailTransport(env.MAIL_PROVIDER, env.SMTP_URL, ctx),
+      from: env.MAIL_FROM,
+      outboxDir: env.MAIL_OUTBOX_DIR,
+      brandName: env.MAIL_BRAND_NAME ?? env.WEBAUTHN_RP_NAME,
+    },
+    geoipDatabasePath: env.GEOIP_DATABASE_PATH ?? null,
+    trustedProxyCount: env.TRUSTED_PROXY_COUNT,
+  }));
+
+export type AppConfig = z.output<typeof envSchema>;
+
+/**
+ * Appwrite settings the selected stores need but that are unset. Checked outside the
+ * schema so they are reported together with every other issue.
+ */
+const missingAppwriteSettings = (raw: Record<string, string | undefined>): string[] => {
+  const dataStore = raw.DATA_STORE ?? "appwrite";
+  const rateLimitStore = raw.RATE_LIMIT_STORE ?? "memory";
+  if (dataStore !== "appwrite" && rateLimitStore !== "appwrite") return [];
+
+  return [
+    "NEXT_PUBLIC_APPWRITE_ENDPOINT",
+    "NEXT_PUBLIC_APPWRITE_PROJECT",
+    "NEXT_APPWRITE_KEY",
+    "NEXT_PUBLIC_APPWRITE_DATABASE",
+    ...(dataStore === "appwrite"
+      ? [
+          "NEXT_PUBLIC_APPWRITE_USERS_COLLECTION",
+          "NEXT_PUBLIC_APPWRITE_SESSIONS_COLLECTION",
+          "NEXT_PUBLIC_APPWRITE_CREDENTIALS_COLLECTION",
+          "NEXT_PUBLIC_APPWRITE_AUDIT_LOG_COLLECTION",
+          "NEXT_PUBLIC_APPWRITE_CHALLENGES_COLLECTION",
+        ]
+      : []),
+    ...(rateLimitStore === "appwrite" ? ["NEXT_PUBLIC_APPWRITE_RATE_LIMITS_COLLECTION"] : []),
+    // Both stores hold write locks there
+    "NEXT_PUBLIC_APPWRITE_LOCKS_COLLECTION",
+  ].filter((name) => !raw[name]);
+};
+
+const profileFor = (env: NodeJS.ProcessEnv): string =>
+  env.APP_ENV ?? (env.NODE_ENV === "production" ? "production" : env.NODE_ENV === "test" ? "test" : "development");
+
+/**
+ * Validate a set of environment variables. Unset and empty variables take the profile's
+ * defaults; WEBAUTHN_ORIGIN (a single origin) is still read when WEBAUTHN_ORIGINS is unset.
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): AppConfig => {
+  const profile = profileFor(env);
+  const defaults = PROFILE_DEFAULTS[profile as AppEnvironment] ?? {};
+
+  const raw: Record<string, string | undefined> = { ...defaults, APP_ENV: profile };
+  for (const [name, value] of Object.entries(env)) {
+    if (value?.trim()) raw[name] = value.trim();
+  }
+  if (!env.WEBAUTHN_ORIGINS?.trim() && env.WEBAUTHN_ORIGIN?.trim()) {
+    raw.WEBAUTHN_ORIGINS = env.WEBAUTHN_ORIGIN.trim();
+  }
+
+  const result = envSchema.safeParse(raw);
+  const issues = [
+    ...(result.success ? [] : result.error.issues.map((issue) => `${String(issue.path[0] ?? "config")}: ${issue.message}`)),
+    ...missingAppwriteSettings(raw).map((name) => `${name}: is required when a store uses Appwrite`),
+  ];
+  if (!result.success || issues.length > 0) throw new ConfigError(issues);
+  return result.data;
+};
+
+let config: AppConfig | null = null;
+
+/**
+ * The validated configuration of this process, loaded on first use
+ */
+export const getConfig = (): AppConfig => {
+  config ??= loadConfig();
+  return config;
+};
@@ -0,0 +1,51 @@
+"use client";
+
+import React, { useCallback, useState } from "react";
+import UnifiedVerificationModal from "@/components/UnifiedVerificationModal";
+import type { ServerResult } from "@/lib/actions/auth.actions";
+import type { ReauthChallenge } from "@/lib/auth/recent-auth";
+
+type PendingReauth = {
+  challenge: ReauthChallenge;
+  resolve: (verified: boolean) => void;
+};
+
+/**
+ * Client side of requireRecentAuth. Run a sensitive action through withRecentAuth; when
+ * the server asks for a fresh factor, the verification modal opens in re-auth mode and
+ * the action is retried once the user verifies. Render reauthModal somewhere in the tree.
+ *
+ *   const { withRecentAuth, reauthModal } = useRecentAuth();
+ *   const res = await withRecentAuth(() => deletePasskey(id));
+ */
+export function useRecentAuth() {
+  const [pending, setPending] = useState<PendingReauth | null>(null);
+
+  const withRecentAuth = useCallback(
+    async <T,>(action: () => Promise<ServerResult<T>>): Promise<ServerResult<T>> => {
+      const result = await action();
+      if (result.success || !result.reauth) return result;
+
+      const challenge = result.reauth;
+      const verified = await new Promise<boolean>((resolve) => setPending({ challenge, resolve }));
+      setPending(null);
+
+      // Cancelled: hand back the original "please confirm" failure
+      return verified ? action() : result;
+    },
+    []
+  );
+
+  const reauthModal = pending ? (
+    <UnifiedVerificationModal
+      mode="reauth"
+      accountId={pending.challenge.accountId}
+      email={pending.challenge.email}
+      methods={pending.challenge.methods}
+      onSuccess={() => pending.resolve(true)}
+      onCancel={() => pending.resolve(false)}
+    />
+  ) : null;
+
+  return { withRecentAuth, reauthModal };
+}
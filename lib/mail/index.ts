@@ -0,0 +1,58 @@
+// lib/mail/index.ts
+import { getConfig } from "@/lib/config";
+import { createFileOutbox, createMemoryOutbox } from "@/lib/mail/outbox";
+import { createSmtpProvider } from "@/lib/mail/smtp";
+import { renderMailTemplate, type MailTemplateName, type MailTemplates } from "@/lib/mail/templates";
+import type { MailProvider, Outbox } from "@/lib/mail/types";
+
+export type * from "@/lib/mail/types";
+export type { MailTemplateName, MailTemplates } from "@/lib/mail/templates";
+
+const globalForMail = globalThis as unknown as { mailProvider?: MailProvider };
+
+/**
+ * Provider selected by MAIL_PROVIDER: "smtp" (SMTP_URL, MAIL_FROM) delivers; "file"
+ * (MAIL_OUTBOX_DIR) and "memory" keep messages for the /dev/outbox page. Kept on globalThis,
+ * so dev hot reloads don't empty the memory outbox.
+ */
+export const getMailProvider = (): MailProvider => {
+  if (!globalForMail.mailProvider) {
+    const mail = getConfig().mail;
+    globalForMail.mailProvider =
+      mail.provider === "smtp"
+        ? createSmtpProvider({ url: mail.smtpUrl, from: mail.from })
+        : mail.provider === "file"
+          ? createFileOutbox(mail.outboxDir)
+          : createMemoryOutbox();
+  }
+  return globalForMail.mailProvider;
+};
+
+/**
+ * The outbox, when the selected provider is one
+ */
+export const getOutbox = (): Outbox | null =>
+  getConfig().mail.provider === "smtp" ? null : (getMailProvider() as Outbox);
+
+/**
+ * Render a template and send it. Best-effort: never throws — callers are sign-in flows
+ * that must answer the same way whether or not the mail went out.
+ */
+export const sendMail = async <T extends MailTemplateName>({
+  to,
+  template,
+  data,
+}: {
+  to: string;
+  template: T;
+  data: MailTemplates[T];
+}): Promise<boolean> => {
+  try {
+    const rendered = renderMailTemplate(template, data, getConfig().mail.brandName);
+    await getMailProvider().send({ to, template, ...rendered });
+    return true;
+  } catch (error) {
+    console.error(`Failed to send ${template} mail`, error);
+    return false;
+  }
+};
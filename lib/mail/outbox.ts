@@ -0,0 +1,64 @@
+// lib/mail/outbox.ts
+import { randomUUID } from "crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { Outbox, OutboxEntry } from "@/lib/mail/types";
+
+/**
+ * Providers that keep every message for /dev/outbox instead of delivering it.
+ * "memory" lasts as long as the process (tests); "file" writes one JSON file per message,
+ * so mail survives restarts and can be read by other tools.
+ */
+
+const newEntry = (message: Omit<OutboxEntry, "id" | "sentAt">): OutboxEntry => ({
+  ...message,
+  id: randomUUID(),
+  sentAt: new Date().toISOString(),
+});
+
+export const createMemoryOutbox = (): Outbox => {
+  const entries: OutboxEntry[] = [];
+
+  return {
+    async send(message) {
+      entries.unshift(newEntry(message));
+    },
+    async list() {
+      return entries.map((entry) => ({ ...entry }));
+    },
+    async clear() {
+      entries.length = 0;
+    },
+  };
+};
+
+export const createFileOutbox = (directory: string): Outbox => {
+  const dir = path.resolve(directory);
+
+  return {
+    async send(message) {
+      const entry = newEntry(message);
+      await mkdir(dir, { recursive: true });
+      // Timestamp first so the files sort by send time
+      const name = `${entry.sentAt.replace(/[:.]/g, "-")}-${entry.id}.json`;
+      await writeFile(path.join(dir, name), JSON.stringify(entry, null, 2));
+    },
+    async list() {
+      let names: string[];
+      try {
+        names = (await readdir(dir)).filter((name) => name.endsWith(".json"));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+
+      names.sort().reverse();
+      return Promise.all(
+        names.map(async (name) => JSON.parse(await readFile(path.join(dir, name), "utf8")) as OutboxEntry)
+      );
+    },
+    async clear() {
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+};
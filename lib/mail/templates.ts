@@ -0,0 +1,163 @@
+// lib/mail/templates.ts
+
+/**
+ * Every email the app sends, as typed templates. Each renders a subject, a plain-text body
+ * and an HTML body in the shared layout, branded with MAIL_BRAND_NAME.
+ */
+
+export interface MailTemplates {
+  "otp-code": { code: string; expiresAt: string };
+  "magic-link": { url: string; expiresAt: string };
+  "no-account": Record<string, never>;
+  "new-device": { device: string; ipAddress: string; at: string };
+  "sign-in-blocked": { signals: string[] };
+  "passkey-added": { name: string };
+  "passkey-removed": { name: string };
+  "passkey-cloned": { name: string };
+  "recovery-code-used": { remaining: number };
+  "email-changed": { newEmail: string };
+}
+
+export type MailTemplateName = keyof MailTemplates;
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/** A paragraph of text, or a call to action */
+type Block = string | { link: string; label: string };
+
+interface TemplateContent {
+  subject: string;
+  blocks: Block[];
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/** "15 minutes" from now until an ISO timestamp */
+const timeLeft = (expiresAt: string) =>
+  plural(Math.max(1, Math.round((Date.parse(expiresAt) - Date.now()) / 60_000)), "minute");
+
+const TEMPLATES: { [T in MailTemplateName]: (data: MailTemplates[T], brand: string) => TemplateContent } = {
+  "otp-code": ({ code, expiresAt }, brand) => ({
+    subject: `Your ${brand} sign-in code`,
+    blocks: [
+      `Your sign-in code is ${code}. It expires in ${timeLeft(expiresAt)}.`,
+      `If you didn't try to sign in, you can ignore this email.`,
+    ],
+  }),
+  "magic-link": ({ url, expiresAt }, brand) => ({
+    subject: `Your ${brand} sign-in link`,
+    blocks: [
+      `Open this link to sign in. It works once and expires in ${timeLeft(expiresAt)}.`,
+      { link: url, label: "Sign in" },
+      `If you didn't try to sign in, you can ignore this email.`,
+    ],
+  }),
+  "no-account": (_data, brand) => ({
+    subject: `Sign-in attempt at ${brand}`,
+    blocks: [
+      `Someone tried to sign in with this email address, but you don't have an account with us.`,
+      `If this was you, sign up instead. If it wasn't, you can ignore this email.`,
+    ],
+  }),
+  "new-device": ({ device, ipAddress, at }) => ({
+    subject: "New sign-in to your account",
+    blocks: [
+      `Your account was just signed in to from ${device} (IP address ${ipAddress}) on ${at}.`,
+      `If this wasn't you, revoke your sessions now and add a passkey or authenticator app.`,
+    ],
+  }),
+  "sign-in-blocked": ({ signals }) => ({
+    subject: "We blocked a sign-in to your account",
+    blocks: [
+      `We blocked a sign-in to your account because it looked unusual (${signals.join(", ")}).`,
+      `If this was you, try again from a device or network you've used before. ` +
+        `If it wasn't, your account is safe, but consider revoking your sessions.`,
+    ],
+  }),
+  "passkey-added": ({ name }) => ({
+    subject: "A passkey was added to your account",
+    blocks: [
+      `The passkey "${name}" was just added to your account and can now be used to sign in.`,
+      `If you didn't add it, remove it in your passkey settings and revoke your sessions.`,
+    ],
+  }),
+  "passkey-removed": ({ name }) => ({
+    subject: "A passkey was removed from your account",
+    blocks: [
+      `The passkey "${name}" was just removed from your account and can no longer be used to sign in.`,
+      `If you didn't remove it, revoke your sessions and review your passkeys.`,
+    ],
+  }),
+  "passkey-cloned": ({ name }) => ({
+    subject: "One of your passkeys may have been copied",
+    blocks: [
+      `Your passkey "${name}" was just used with a signature counter lower than before, ` +
+        `which happens when a copy of the key is in use.`,
+      `Remove it in your passkey settings and add a new one.`,
+    ],
+  }),
+  "recovery-code-used": ({ remaining }) => ({
+    subject: "A recovery code was used to sign in",
+    blocks: [
+      `A recovery code was just used to sign in to your account. You have ${plural(remaining, "recovery code")} left.`,
+      `If this wasn't you, revoke your sessions and regenerate your recovery codes now.`,
+    ],
+  }),
+  "email-changed": ({ newEmail }) => ({
+    subject: "Your email address was changed",
+    blocks: [
+      `The email address on your account was changed to ${newEmail}.`,
+      `If you didn't do this, contact support right away.`,
+    ],
+  }),
+};
+
+const renderText = (blocks: Block[], brand: string) =>
+  [...blocks.map((block) => (typeof block === "string" ? block : `${block.label}: ${block.link}`)), `— ${brand}`].join(
+    "\n\n"
+  );
+
+const renderHtml = (subject: string, blocks: Block[], brand: string) => {
+  const body = blocks
+    .map((block) =>
+      typeof block === "string"
+        ? `<p style="margin:0 0 16px">${escapeHtml(block)}</p>`
+        : `<p style="margin:0 0 16px"><a href="${escapeHtml(block.link)}" style="display:inline-block;padding:10px 20px;border-radius:6px;background:#28292d;color:#45f3ff;text-decoration:none">${escapeHtml(block.label)}</a></p>`
+    )
+    .join("\n");
+
+  return `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b">
+<div style="max-width:480px;margin:0 auto;padding:24px;background:#ffffff;border-radius:8px">
+<h1 style="margin:0 0 24px;font-size:18px">${escapeHtml(brand)}</h1>
+${body}
+</div>
+</body>
+</html>`;
+};
+
+/**
+ * Render a template for the given brand name
+ */
+export const renderMailTemplate = <T extends MailTemplateName>(
+  template: T,
+  data: MailTemplates[T],
+  brand: string
+): RenderedMail => {
+  const { subject, blocks } = TEMPLATES[template](data, brand);
+  return { subject, text: renderText(blocks, brand), html: renderHtml(subject, blocks, brand) };
+};
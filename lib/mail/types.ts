@@ -0,0 +1,35 @@
+// lib/mail/types.ts
+import type { MailTemplateName } from "@/lib/mail/templates";
+
+/**
+ * Contracts of the mail layer. Callers send templates through sendMail (lib/mail/index.ts);
+ * providers only ever see rendered messages.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  /** Template the message was rendered from */
+  template: MailTemplateName;
+}
+
+export interface MailProvider {
+  /** Throws when the message could not be handed over */
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface OutboxEntry extends MailMessage {
+  id: string;
+  sentAt: string;
+}
+
+/**
+ * A provider that keeps messages instead of delivering them, for offline development and tests
+ */
+export interface Outbox extends MailProvider {
+  /** Newest first */
+  list(): Promise<OutboxEntry[]>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,95 @@
+// lib/repositories/appwrite.test.ts
+import { AppwriteException } from "node-appwrite";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAppwriteRepositories } from "@/lib/repositories/appwrite";
+import type { ChallengeRecord } from "@/lib/repositories/types";
+
+const { databases, users } = vi.hoisted(() => ({
+  databases: { getDocument: vi.fn(), deleteDocument: vi.fn() },
+  users: { listSessions: vi.fn() },
+}));
+
+vi.mock("@/lib/appwrite/index", () => ({ createAdminClient: async () => ({ databases, users }) }));
+
+const CHALLENGE = {
+  $id: "ceremony-1",
+  ceremonyId: "ceremony-1",
+  type: "authentication",
+  challenge: "challenge",
+  accountId: null,
+  expiresAt: "2099-01-01T00:00:00.000Z",
+} as ChallengeRecord;
+
+const notFound = () => new AppwriteException("Document not found", 404, "document_not_found");
+
+describe("Appwrite challenges.consume", () => {
+  beforeEach(() => {
+    databases.getDocument.mockReset();
+    databases.deleteDocument.mockReset();
+  });
+
+  it("returns the challenge it deleted", async () => {
+    databases.getDocument.mockResolvedValue(CHALLENGE);
+    databases.deleteDocument.mockResolvedValue({});
+
+    expect(await createAppwriteRepositories().challenges.consume("ceremony-1")).toEqual(CHALLENGE);
+  });
+
+  it("returns null for an unknown ceremony", async () => {
+    databases.getDocument.mockRejectedValue(notFound());
+
+    expect(await createAppwriteRepositories().challenges.consume("ceremony-1")).toBeNull();
+    expect(databases.deleteDocument).not.toHaveBeenCalled();
+  });
+
+  it("returns null when another request deleted it between the get and the delete", async () => {
+    databases.getDocument.mockResolvedValue(CHALLENGE);
+    databases.deleteDocument.mockRejectedValue(notFound());
+
+    expect(await createAppwriteRepositories().challenges.consume("ceremony-1")).toBeNull();
+  });
+
+  it("passes on other errors", async () => {
+    databases.getDocument.mockResolvedValue(CHALLENGE);
+    databases.deleteDocument.mockRejectedValue(new AppwriteException("Server error", 500));
+
+    await expect(createAppwriteRepositories().challenges.consume("ceremony-1")).rejects.toThrow("Server error");
+  });
+});
+
+describe("Appwrite accounts.isSessionActive", () => {
+  const FUTURE = "2099-01-01T00:00:00.000Z";
+
+  beforeEach(() => {
+    users.listSessions.mockReset();
+  });
+
+  it("finds the session among the account's sessions by its ID", async () => {
+    users.listSessions.mockResolvedValue({
+      total: 2,
+      sessions: [
+        { $id: "session-1", expire: FUTURE },
+        { $id: "session-2", expire: FUTURE },
+      ],
+    });
+
+    expect(await createAppwriteRepositories().accounts.isSessionActive("account-1", "session-2")).toBe(true);
+    expect(users.listSessions).toHaveBeenCalledWith("account-1");
+  });
+
+  it("refuses a session the account doesn't have or that has expired", async () => {
+    users.listSessions.mockResolvedValue({
+      total: 1,
+      sessions: [{ $id: "session-1", expire: "2000-01-01T00:00:00.000Z" }],
+    });
+
+    expect(await createAppwriteRepositories().accounts.isSessionActive("account-1", "session-1")).toBe(false);
+    expect(await createAppwriteRepositories().accounts.isSessionActive("account-1", "session-2")).toBe(false);
+  });
+
+  it("refuses a session of an unknown account", async () => {
+    users.listSessions.mockRejectedValue(new AppwriteException("User not found", 404, "user_not_found"));
+
+    expect(await createAppwriteRepositories().accounts.isSessionActive("account-1", "session-1")).toBe(false);
+  });
+});
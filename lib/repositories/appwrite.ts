@@ -0,0 +1,297 @@
+// lib/repositories/appwrite.ts
+import { isDeepStrictEqual } from "util";
+import { AppwriteException, ID, Query } from "node-appwrite";
+import { createAdminClient } from "@/lib/appwrite/index";
+import { getConfig } from "@/lib/config";
+import type {
+  AccountRepository,
+  AuditEvent,
+  AuditLogRepository,
+  ChallengeRecord,
+  ChallengeRepository,
+  CredentialRecord,
+  CredentialRepository,
+  Repositories,
+  SessionRecord,
+  SessionRepository,
+  UserRecord,
+  UserRepository,
+} from "@/lib/repositories/types";
+
+/**
+ * Repositories backed by Appwrite: Auth for accounts, Databases (one collection each) for the rest
+ */
+
+const LIST_LIMIT = 100;
+/** Characters in an emailed secret; Appwrite allows up to 128 */
+const EMAIL_TOKEN_LENGTHS = { code: 6, link: 64 } as const;
+const EMAIL_TOKEN_TTL_SECONDS = 15 * 60;
+/** How long a write lock may be held before the next writer may clear it */
+const WRITE_LOCK_TTL_MS = 10_000;
+
+const createDocument = async <T>(collectionId: string, data: object): Promise<T> => {
+  const { databases } = await createAdminClient();
+  const document = await databases.createDocument(getConfig().appwrite.databaseId, collectionId, ID.unique(), data);
+  return document as unknown as T;
+};
+
+const listDocuments = async <T>(collectionId: string, queries: string[]): Promise<T[]> => {
+  const { databases } = await createAdminClient();
+  const result = await databases.listDocuments(getConfig().appwrite.databaseId, collectionId, queries);
+  return result.documents as unknown as T[];
+};
+
+const findDocument = async <T>(collectionId: string, queries: string[]): Promise<T | null> => {
+  const [document] = await listDocuments<T>(collectionId, [...queries, Query.limit(1)]);
+  return document ?? null;
+};
+
+const updateDocument = async (collectionId: string, id: string, changes: object) => {
+  const { databases } = await createAdminClient();
+  await databases.updateDocument(getConfig().appwrite.databaseId, collectionId, id, changes);
+};
+
+const isNotFound = (error: unknown) => error instanceof AppwriteException && error.code === 404;
+
+const createAppwriteAccountRepository = (): AccountRepository => ({
+  async createEmailToken(email, kind) {
+    const { users } = await createAdminClient();
+    const {
+      users: [existing],
+    } = await users.list([Query.equal("email", [email]), Query.limit(1)]);
+    const accountId = existing?.$id ?? (await users.create(ID.unique(), email)).$id;
+
+    // Server-created tokens are sent by us (lib/mail), not by Appwrite's templates
+    const token = await users.createToken(accountId, EMAIL_TOKEN_LENGTHS[kind], EMAIL_TOKEN_TTL_SECONDS);
+    return { accountId, secret: token.secret, expiresAt: token.expire };
+  },
+  async createSession(accountId, code) {
+    const { account } = await createAdminClient();
+    const session = await account.createSession(accountId, code);
+    return { $id: session.$id, accountId: session.userId, expire: session.expire };
+  },
+  /** The cookie holds the session ID, not its secret, so the lookup goes through the admin API */
+  async isSessionActive(accountId, sessionId) {
+    const { users } = await createAdminClient();
+
+    try {
+      const { sessions } = await users.listSessions(accountId);
+      const session = sessions.find((candidate) => candidate.$id === sessionId);
+      return session ? new Date(session.expire).getTime() > Date.now() : false;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  },
+  async deleteSession(accountId, sessionId) {
+    const { users } = await createAdminClient();
+    await users.deleteSession(accountId, sessionId);
+  },
+  async updateEmail(accountId, email) {
+    const { users } = await createAdminClient();
+    await users.updateEmail(accountId, email);
+  },
+  async getLabels(accountId) {
+    const { users } = await createAdminClient();
+    const user = await users.get(accountId);
+    return user.labels ?? [];
+  },
+});
+
+const createAppwriteAuditLogRepository = (): AuditLogRepository => {
+  const collectionId = getConfig().appwrite.auditLogCollectionId;
+
+  return {
+    async append(event) {
+      await createDocument<AuditEvent>(collectionId, event);
+    },
+    listByAccountId: (accountId, limit) =>
+      listDocuments<AuditEvent>(collectionId, [
+        Query.equal("accountId", [accountId]),
+        Query.orderDesc("$createdAt"),
+        Query.limit(limit),
+      ]),
+  };
+};
+
+/** Challenge documents use the ceremonyId as their document ID, so consume is a get and a delete */
+const createAppwriteChallengeRepository = (): ChallengeRepository => {
+  const collectionId = getConfig().appwrite.challengesCollectionId;
+
+  return {
+    async create(data) {
+      const { databases } = await createAdminClient();
+      const document = await databases.createDocument(
+        getConfig().appwrite.databaseId,
+        collectionId,
+        data.ceremonyId,
+        data
+      );
+      return document as unknown as ChallengeRecord;
+    },
+    async consume(ceremonyId) {
+      const { databases } = await createAdminClient();
+      const { databaseId } = getConfig().appwrite;
+
+      let document;
+      try {
+        document = await databases.getDocument(databaseId, collectionId, ceremonyId);
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+
+      // Concurrent requests can all read the document, but only one delete of it succeeds:
+      // whoever made that delete owns the challenge, the others lost the race and get nothing
+      try {
+        await databases.deleteDocument(databaseId, collectionId, ceremonyId);
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+      return document as unknown as ChallengeRecord;
+    },
+    async deleteExpired(before) {
+      const { databases } = await createAdminClient();
+      const { databaseId } = getConfig().appwrite;
+
+      let deleted = 0;
+      for (;;) {
+        const expired = await listDocuments<ChallengeRecord>(collectionId, [
+          Query.lessThan("expiresAt", before.toISOString()),
+          Query.limit(LIST_LIMIT),
+        ]);
+        for (const record of expired) {
+          try {
+            await databases.deleteDocument(databaseId, collectionId, record.$id);
+            deleted += 1;
+          } catch (error) {
+            // Consumed in the meantime
+            if (!isNotFound(error)) throw error;
+          }
+        }
+        if (expired.length < LIST_LIMIT) return deleted;
+      }
+    },
+  };
+};
+
+const isConflict = (error: unknown) => error instanceof AppwriteException && error.code === 409;
+
+/**
+ * Appwrite has no conditional writes, so updateIf (and the Appwrite rate-limit store) hold a
+ * lock document, keyed by the ID of the document they write, around their read and write.
+ * Only one create of a document ID succeeds. A lock left behind by a crashed writer is
+ * cleared once it has expired, and the write that finds it fails like one that lost the race.
+ */
+export const acquireWriteLock = async (documentId: string): Promise<boolean> => {
+  const { databases } = await createAdminClient();
+  const { databaseId, locksCollectionId } = getConfig().appwrite;
+
+  try {
+    await databases.createDocument(databaseId, locksCollectionId, documentId, {
+      expiresAt: new Date(Date.now() + WRITE_LOCK_TTL_MS).toISOString(),
+    });
+    return true;
+  } catch (error) {
+    if (!isConflict(error)) throw error;
+  }
+
+  try {
+    const lock = await databases.getDocument(databaseId, locksCollectionId, documentId);
+    if (new Date(lock.expiresAt).getTime() <= Date.now()) {
+      await databases.deleteDocument(databaseId, locksCollectionId, documentId);
+    }
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+  }
+  return false;
+};
+
+export const releaseWriteLock = async (documentId: string) => {
+  const { databases } = await createAdminClient();
+  const { databaseId, locksCollectionId } = getConfig().appwrite;
+
+  try {
+    await databases.deleteDocument(databaseId, locksCollectionId, documentId);
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+  }
+};
+
+const createAppwriteUserRepository = (): UserRepository => {
+  const collectionId = getConfig().appwrite.usersCollectionId;
+
+  return {
+    findByAccountId: (accountId) =>
+      findDocument<UserRecord>(collectionId, [
+        Query.or([Query.equal("accountId", [accountId]), Query.equal("userId", [accountId])]),
+      ]),
+    findByEmail: (email) => findDocument<UserRecord>(collectionId, [Query.equal("email", [email])]),
+    create: (data) => createDocument<UserRecord>(collectionId, data),
+    update: (id, changes) => updateDocument(collectionId, id, changes),
+    async updateIf(id, expected, changes) {
+      if (!(await acquireWriteLock(id))) return false;
+
+      try {
+        const { databases } = await createAdminClient();
+        const current = await databases.getDocument(getConfig().appwrite.databaseId, collectionId, id);
+        const matches = Object.entries(expected).every(([key, value]) =>
+          isDeepStrictEqual(current[key] ?? null, value ?? null)
+        );
+        if (matches) await updateDocument(collectionId, id, changes);
+        return matches;
+      } finally {
+        await releaseWriteLock(id);
+      }
+    },
+  };
+};
+
+const createAppwriteCredentialRepository = (): CredentialRepository => {
+  const collectionId = getConfig().appwrite.credentialsCollectionId;
+
+  return {
+    create: (data) => createDocument<CredentialRecord>(collectionId, data),
+    findByCredentialId: (credentialId) =>
+      findDocument<CredentialRecord>(collectionId, [Query.equal("credentialId", [credentialId])]),
+    listByAccountId: (accountId) =>
+      listDocuments<CredentialRecord>(collectionId, [
+        Query.equal("accountId", [accountId]),
+        Query.orderAsc("$createdAt"),
+        Query.limit(LIST_LIMIT),
+      ]),
+    update: (id, changes) => updateDocument(collectionId, id, changes),
+    async delete(id) {
+      const { databases } = await createAdminClient();
+      await databases.deleteDocument(getConfig().appwrite.databaseId, collectionId, id);
+    },
+  };
+};
+
+const createAppwriteSessionRepository = (): SessionRepository => {
+  const collectionId = getConfig().appwrite.sessionsCollectionId;
+
+  return {
+    create: (data) => createDocument<SessionRecord>(collectionId, data),
+    findBySessionId: (sessionId) =>
+      findDocument<SessionRecord>(collectionId, [Query.equal("sessionId", [sessionId])]),
+    listUnrevokedByAccountId: (accountId) =>
+      listDocuments<SessionRecord>(collectionId, [
+        Query.equal("accountId", [accountId]),
+        Query.isNull("revokedAt"),
+        Query.orderDesc("lastSeenAt"),
+        Query.limit(LIST_LIMIT),
+      ]),
+    update: (id, changes) => updateDocument(collectionId, id, changes),
+  };
+};
+
+export const createAppwriteRepositories = (): Repositories => ({
+  accounts: createAppwriteAccountRepository(),
+  auditLog: createAppwriteAuditLogRepository(),
+  challenges: createAppwriteChallengeRepository(),
+  users: createAppwriteUserRepository(),
+  credentials: createAppwriteCredentialRepository(),
+  sessions: createAppwriteSessionRepository(),
+});
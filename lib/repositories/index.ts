@@ -0,0 +1,23 @@
+// lib/repositories/index.ts
+import { createAppwriteRepositories } from "@/lib/repositories/appwrite";
+import { createMemoryRepositories } from "@/lib/repositories/memory";
+import type { Repositories } from "@/lib/repositories/types";
+import { getConfig } from "@/lib/config";
+
+export type * from "@/lib/repositories/types";
+
+const globalForRepositories = globalThis as unknown as { repositories?: Repositories };
+
+/**
+ * Repositories selected by DATA_STORE ("appwrite" | "memory", default "appwrite").
+ * "memory" keeps users, credentials, sessions, WebAuthn challenges, Appwrite accounts and the
+ * audit log in this process (on globalThis, so dev hot reloads don't wipe them) and runs the
+ * auth flows without Appwrite at all — email codes go out through sendMail. The e2e tests run on it.
+ */
+export const getRepositories = (): Repositories => {
+  if (!globalForRepositories.repositories) {
+    globalForRepositories.repositories =
+      getConfig().dataStore === "memory" ? createMemoryRepositories() : createAppwriteRepositories();
+  }
+  return globalForRepositories.repositories;
+};
@@ -0,0 +1,255 @@
+// lib/repositories/memory.ts
+import { randomBytes, randomInt, randomUUID } from "crypto";
+import { isDeepStrictEqual } from "util";
+import { AppwriteException } from "node-appwrite";
+import type {
+  AccountRepository,
+  AccountSession,
+  AuditEvent,
+  ChallengeRecord,
+  CredentialRecord,
+  EmailTokenKind,
+  NewRecord,
+  RecordChanges,
+  Repositories,
+  SessionRecord,
+  UserRecord,
+} from "@/lib/repositories/types";
+
+/**
+ * Process-local repositories with the same behaviour as the Appwrite ones: records get
+ * an $id and $createdAt, callers only ever see copies, and emailed secrets are exchanged
+ * for sessions the same way. For development without an Appwrite server, and for tests.
+ */
+
+const LIST_LIMIT = 100;
+/** Same lifetime as the Appwrite repository gives its email tokens */
+const EMAIL_TOKEN_TTL_MS = 15 * 60 * 1000;
+const ACCOUNT_SESSION_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+const EMAIL_TOKEN_KINDS: EmailTokenKind[] = ["code", "link"];
+
+const newId = () => randomUUID().replace(/-/g, "").slice(0, 20);
+
+const createMemoryCollection = <T extends { $id: string; $createdAt: string }>() => {
+  const records = new Map<string, T>();
+
+  return {
+    insert(data: NewRecord<T>): T {
+      const record = {
+        ...structuredClone(data),
+        $id: newId(),
+        $createdAt: new Date().toISOString(),
+      } as T;
+      records.set(record.$id, record);
+      return structuredClone(record);
+    },
+    filter(predicate: (record: T) => boolean): T[] {
+      return Array.from(records.values()).filter(predicate).map((record) => structuredClone(record));
+    },
+    update(id: string, changes: RecordChanges<T>) {
+      const record = records.get(id);
+      if (!record) throw new Error(`Record ${id} not found`);
+      records.set(id, { ...record, ...structuredClone(changes) });
+    },
+    /** Compare and write in one synchronous step, so only one caller can win */
+    updateIf(id: string, expected: RecordChanges<T>, changes: RecordChanges<T>): boolean {
+      const record = records.get(id);
+      if (!record) throw new Error(`Record ${id} not found`);
+      const matches = Object.entries(expected).every(([key, value]) =>
+        isDeepStrictEqual(record[key as keyof T] ?? null, value ?? null)
+      );
+      if (matches) records.set(id, { ...record, ...structuredClone(changes) });
+      return matches;
+    },
+    delete(id: string) {
+      if (!records.delete(id)) throw new Error(`Record ${id} not found`);
+    },
+    clear() {
+      records.clear();
+    },
+  };
+};
+
+const createMemoryAccountRepository = () => {
+  const accounts = new Map<string, { email: string; labels: string[] }>();
+  /** Pending secrets by `${accountId}:${kind}`: a code and a link can be out at the same time */
+  const codes = new Map<string, { code: string; expiresAt: number }>();
+  const sessions = new Map<string, AccountSession>();
+
+  const findOrCreateAccount = (email: string) => {
+    const existing = Array.from(accounts.entries()).find(([, account]) => account.email === email);
+    const accountId = existing?.[0] ?? newId();
+    if (!existing) accounts.set(accountId, { email, labels: [] });
+    return accountId;
+  };
+
+  const repository: AccountRepository = {
+    async createEmailToken(email, kind) {
+      const accountId = findOrCreateAccount(email);
+
+      const secret =
+        kind === "code" ? randomInt(0, 1_000_000).toString().padStart(6, "0") : randomBytes(32).toString("hex");
+      const expiresAt = Date.now() + EMAIL_TOKEN_TTL_MS;
+      codes.set(`${accountId}:${kind}`, { code: secret, expiresAt });
+
+      return { accountId, secret, expiresAt: new Date(expiresAt).toISOString() };
+    },
+    async createSession(accountId, code) {
+      if (!accounts.has(accountId)) {
+        throw new AppwriteException("User with the requested ID could not be found.", 404, "user_not_found");
+      }
+      const key = EMAIL_TOKEN_KINDS.map((kind) => `${accountId}:${kind}`).find((candidate) => {
+        const pending = codes.get(candidate);
+        return pending?.code === code && pending.expiresAt > Date.now();
+      });
+      if (!key) throw new AppwriteException("Invalid token passed in the request.", 401, "user_invalid_token");
+
+      codes.delete(key);
+      const session = {
+        $id: newId(),
+        accountId,
+        expire: new Date(Date.now() + ACCOUNT_SESSION_TTL_MS).toISOString(),
+      };
+      sessions.set(session.$id, session);
+      return { ...session };
+    },
+    async isSessionActive(accountId, sessionId) {
+      const session = sessions.get(sessionId);
+      return session?.accountId === accountId && new Date(session.expire).getTime() > Date.now();
+    },
+    async deleteSession(accountId, sessionId) {
+      if (sessions.get(sessionId)?.accountId !== accountId) {
+        throw new AppwriteException("The current user session could not be found.", 404, "user_session_not_found");
+      }
+      sessions.delete(sessionId);
+    },
+    async updateEmail(accountId, email) {
+      const account = accounts.get(accountId);
+      if (!account) throw new AppwriteException("User with the requested ID could not be found.", 404, "user_not_found");
+      account.email = email;
+    },
+    async getLabels(accountId) {
+      return [...(accounts.get(accountId)?.labels ?? [])];
+    },
+  };
+
+  return {
+    repository,
+    clear() {
+      accounts.clear();
+      codes.clear();
+      sessions.clear();
+    },
+  };
+};
+
+export const createMemoryRepositories = (): Repositories & { reset(): void } => {
+  const accounts = createMemoryAccountRepository();
+  const auditLog = createMemoryCollection<AuditEvent>();
+  const challenges = createMemoryCollection<ChallengeRecord>();
+  const users = createMemoryCollection<UserRecord>();
+  const credentials = createMemoryCollection<CredentialRecord>();
+  const sessions = createMemoryCollection<SessionRecord>();
+
+  return {
+    accounts: accounts.repository,
+
+    auditLog: {
+      async append(event) {
+        auditLog.insert(event);
+      },
+      async listByAccountId(accountId, limit) {
+        // Inserted in order, so newest first is the reverse
+        return auditLog
+          .filter((event) => event.accountId === accountId)
+          .reverse()
+          .slice(0, limit);
+      },
+    },
+
+    challenges: {
+      async create(data) {
+        return challenges.insert(data);
+      },
+      async consume(ceremonyId) {
+        // Find and delete in one synchronous step, so only one caller can get it
+        const [challenge] = challenges.filter((record) => record.ceremonyId === ceremonyId);
+        if (!challenge) return null;
+        challenges.delete(challenge.$id);
+        return challenge;
+      },
+      async deleteExpired(before) {
+        const expired = challenges.filter((record) => new Date(record.expiresAt) < before);
+        for (const record of expired) challenges.delete(record.$id);
+        return expired.length;
+      },
+    },
+
+    users: {
+      async findByAccountId(accountId) {
+        return users.filter((user) => user.accountId === accountId || user.userId === accountId)[0] ?? null;
+      },
+      async findByEmail(email) {
+        return users.filter((user) => user.email === email)[0] ?? null;
+      },
+      async create(data) {
+        return users.insert(data);
+      },
+      async update(id, changes) {
+        users.update(id, changes);
+      },
+      async updateIf(id, expected, changes) {
+        return users.updateIf(id, expected, changes);
+      },
+    },
+
+    credentials: {
+      async create(data) {
+        return credentials.insert(data);
+      },
+      async findByCredentialId(credentialId) {
+        return credentials.filter((credential) => credential.credentialId === credentialId)[0] ?? null;
+      },
+      async listByAccountId(accountId) {
+        return credentials
+          .filter((credential) => credential.accountId === accountId)
+          .sort((a, b) => a.$createdAt.localeCompare(b.$createdAt))
+          .slice(0, LIST_LIMIT);
+      },
+      async update(id, changes) {
+        credentials.update(id, changes);
+      },
+      async delete(id) {
+        credentials.delete(id);
+      },
+    },
+
+    sessions: {
+      async create(data) {
+        return sessions.insert(data);
+      },
+      async findBySessionId(sessionId) {
+        return sessions.filter((session) => session.sessionId === sessionId)[0] ?? null;
+      },
+      async listUnrevokedByAccountId(accountId) {
+        return sessions
+          .filter((session) => session.accountId === accountId && !session.revokedAt)
+          .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+          .slice(0, LIST_LIMIT);
+      },
+      async update(id, changes) {
+        sessions.update(id, changes);
+      },
+    },
+
+    /** Drop every record, e.g. between tests */
+    reset() {
+      accounts.clear();
+      auditLog.clear();
+      challenges.clear();
+      users.clear();
+      credentials.clear();
+      sessions.clear();
+    },
+  };
+};
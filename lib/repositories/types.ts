@@ -0,0 +1,222 @@
+// lib/repositories/types.ts
+import type { AuthenticatorTransportFuture, CredentialDeviceType } from "@simplewebauthn/server";
+import type { AuditEventType, AuditOutcome } from "@/lib/auth/audit-log";
+import type { AuthMethod } from "@/lib/auth/session-token";
+
+/**
+ * Records and repository contracts of the data-access layer. Everything above this layer
+ * talks to these interfaces; lib/repositories/index.ts picks the implementation.
+ */
+
+/** Fields every stored record gets from its store */
+interface StoredRecord {
+  $id: string;
+  $createdAt: string;
+}
+
+/** What a caller supplies to create a record */
+export type NewRecord<T extends StoredRecord> = Omit<T, "$id" | "$createdAt">;
+
+/** Fields a caller may change on a record */
+export type RecordChanges<T extends StoredRecord> = Partial<NewRecord<T>>;
+
+/**
+ * One application user. accountId is the Appwrite account it belongs to.
+ */
+export interface UserRecord extends StoredRecord {
+  accountId: string;
+  /** Same as accountId; older documents were only keyed by it */
+  userId: string;
+  fullName: string;
+  email: string;
+  avatar: string | null;
+  /** Factor the user last enrolled as primary ("otp" or "passkey") */
+  authMethod: string;
+  /** Denormalised from the credentials, see syncUserPasskeyFlags */
+  hasPasskey: boolean;
+  passKeyCount: number;
+  /** Encrypted TOTP secrets, see lib/auth/secret-box.ts */
+  totpEnabled?: boolean;
+  totpSecret?: string | null;
+  totpPendingSecret?: string | null;
+  totpLastUsedStep?: number | null;
+  /** SHA-256 hashes of unused recovery codes */
+  recoveryCodes?: string[];
+  /** Single-credential schema, moved out by migrateLegacyCredential */
+  credentialID?: string | null;
+  credentialPublicKey?: string | null;
+  counter?: number | null;
+}
+
+/**
+ * WebAuthn credentials, one record per credential, keyed by credential ID.
+ * A user can own any number of them (one per device / security key).
+ */
+export interface CredentialRecord extends StoredRecord {
+  /** base64url credential ID as returned by the authenticator */
+  credentialId: string;
+  accountId: string;
+  /**
+   * base64url WebAuthn user.id the credential was created with. Discoverable logins
+   * return it as userHandle. Null for credentials migrated from the user document.
+   */
+  userHandle: string | null;
+  /** User-facing label, e.g. "Chrome on macOS" — can be renamed */
+  name: string;
+  /** "multiDevice" for synced passkeys, "singleDevice" for device-bound keys */
+  deviceType: CredentialDeviceType;
+  /** Authenticator data BE flag: the key may be synced to other devices */
+  backupEligible: boolean;
+  /** Authenticator data BS flag as of the last ceremony: the key is currently synced */
+  backedUp: boolean;
+  /** base64url COSE public key */
+  publicKey: string;
+  counter: number;
+  transports: AuthenticatorTransportFuture[];
+  aaguid: string;
+  /** Model name from the FIDO metadata snapshot; null unless attestation was verified */
+  authenticatorModel: string | null;
+  lastUsedAt: string | null;
+  /** Set when the signature counter went backwards: the key may have been cloned */
+  cloneSuspectedAt: string | null;
+}
+
+/**
+ * A pending WebAuthn ceremony, from the options to the verification that answers it.
+ * ceremonyId is random and travels to the browser with the options, so each tab's
+ * ceremony has its own challenge.
+ */
+export interface ChallengeRecord extends StoredRecord {
+  ceremonyId: string;
+  type: "registration" | "authentication";
+  challenge: string;
+  /** Account the ceremony is for; null for a discoverable login */
+  accountId: string | null;
+  /** ISO; the store may drop the record any time after */
+  expiresAt: string;
+}
+
+/**
+ * Server-side record of a signed-in session (OTP and passkey)
+ */
+export interface SessionRecord extends StoredRecord {
+  /** Appwrite session $id for OTP sessions, `sid` claim for passkey sessions */
+  sessionId: string;
+  accountId: string;
+  /** Factor the session was opened with */
+  authMethod: AuthMethod;
+  /** Every factor the session has satisfied so far (AMR), including step-ups */
+  amr: AuthMethod[];
+  /** When a factor was last verified for this session: sign-in, step-up or re-auth */
+  verifiedAt: string;
+  device: string;
+  userAgent: string;
+  ipAddress: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+/**
+ * One entry of the append-only security audit log
+ */
+export interface AuditEvent extends StoredRecord {
+  type: AuditEventType;
+  /** accountId of the user the event is about; null when it couldn't be resolved */
+  accountId: string | null;
+  method: AuthMethod | null;
+  outcome: AuditOutcome;
+  ipAddress: string;
+  userAgent: string;
+  /** Short free-text context, e.g. the passkey name or why a verification failed */
+  detail: string | null;
+}
+
+/** A session of the identity provider, opened with an emailed code */
+export interface AccountSession {
+  $id: string;
+  accountId: string;
+  /** ISO expiry */
+  expire: string;
+}
+
+/** A short code the user types, or a long secret carried by a sign-in link */
+export type EmailTokenKind = "code" | "link";
+
+/**
+ * The identity provider's accounts: email-code sign-in and the sessions it creates.
+ * Errors follow Appwrite's: AppwriteException 401 for a wrong or expired code,
+ * 404 for an unknown account.
+ */
+
+export interface AccountRepository {
+  /**
+   * One-time sign-in secret for an email address, creating the account on first use.
+   * Mailing it is up to the caller (lib/mail); it is exchanged through createSession.
+   */
+  createEmailToken(email: string, kind: EmailTokenKind): Promise<{ accountId: string; secret: string; expiresAt: string }>;
+  /** Exchange an emailed secret for a session */
+  createSession(accountId: string, code: string): Promise<AccountSession>;
+  /** Whether the account still has this session, unexpired */
+  isSessionActive(accountId: string, sessionId: string): Promise<boolean>;
+  deleteSession(accountId: string, sessionId: string): Promise<void>;
+  updateEmail(accountId: string, email: string): Promise<void>;
+  /** Labels used as policy groups */
+  getLabels(accountId: string): Promise<string[]>;
+}
+
+export interface AuditLogRepository {
+  append(event: NewRecord<AuditEvent>): Promise<void>;
+  /** Newest first */
+  listByAccountId(accountId: string, limit: number): Promise<AuditEvent[]>;
+}
+
+export interface UserRepository {
+  /** Matches accountId, or userId for older documents */
+  findByAccountId(accountId: string): Promise<UserRecord | null>;
+  findByEmail(email: string): Promise<UserRecord | null>;
+  create(data: NewRecord<UserRecord>): Promise<UserRecord>;
+  update(id: string, changes: RecordChanges<UserRecord>): Promise<void>;
+  /**
+   * Apply changes only if the record still holds the expected values; false when another
+   * write got there first. Of concurrent callers expecting the same values only one wins.
+   */
+  updateIf(id: string, expected: RecordChanges<UserRecord>, changes: RecordChanges<UserRecord>): Promise<boolean>;
+}
+
+export interface CredentialRepository {
+  create(data: NewRecord<CredentialRecord>): Promise<CredentialRecord>;
+  findByCredentialId(credentialId: string): Promise<CredentialRecord | null>;
+  /** Oldest first */
+  listByAccountId(accountId: string): Promise<CredentialRecord[]>;
+  update(id: string, changes: RecordChanges<CredentialRecord>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface SessionRepository {
+  create(data: NewRecord<SessionRecord>): Promise<SessionRecord>;
+  findBySessionId(sessionId: string): Promise<SessionRecord | null>;
+  /** Sessions not yet revoked (possibly expired), most recently used first */
+  listUnrevokedByAccountId(accountId: string): Promise<SessionRecord[]>;
+  update(id: string, changes: RecordChanges<SessionRecord>): Promise<void>;
+}
+
+export interface ChallengeRepository {
+  create(data: NewRecord<ChallengeRecord>): Promise<ChallengeRecord>;
+  /**
+   * Delete a ceremony's challenge and return it. Atomic: of concurrent callers only one
+   * gets the record, the others null. Expired records may still be returned.
+   */
+  consume(ceremonyId: string): Promise<ChallengeRecord | null>;
+  /** Delete every challenge that expired before the given time; returns how many */
+  deleteExpired(before: Date): Promise<number>;
+}
+
+export interface Repositories {
+  accounts: AccountRepository;
+  auditLog: AuditLogRepository;
+  challenges: ChallengeRepository;
+  users: UserRepository;
+  credentials: CredentialRepository;
+  sessions: SessionRepository;
+}
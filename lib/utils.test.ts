@@ -0,0 +1,31 @@
+// lib/utils.test.ts
+import { describe, expect, it } from "vitest";
+import { getSafeRedirect } from "@/lib/utils";
+
+describe("getSafeRedirect", () => {
+  it("keeps same-origin paths with their query and fragment", () => {
+    expect(getSafeRedirect("/settings/passkeys")).toBe("/settings/passkeys");
+    expect(getSafeRedirect("/docs/intro?tab=api#setup")).toBe("/docs/intro?tab=api#setup");
+  });
+
+  it("falls back when there is nothing to go to", () => {
+    expect(getSafeRedirect(undefined)).toBe("/docs");
+    expect(getSafeRedirect(null)).toBe("/docs");
+    expect(getSafeRedirect("", "/settings")).toBe("/settings");
+  });
+
+  it.each([
+    "https://evil.com/",
+    "evil.com",
+    "//evil.com",
+    "/\\evil.com",
+    "\\/evil.com",
+    "/\t/evil.com",
+    "/\n/evil.com",
+    "/\r\n/evil.com",
+    "/\t\\evil.com",
+    "//[",
+  ])("refuses %j, which leaves the site", (value) => {
+    expect(getSafeRedirect(value)).toBe("/docs");
+  });
+});
@@ -6,3 +6,26 @@ export function cn(...inputs: ClassValue[]) {
 }
 export const parseStringify = (value: unknown) =>
   JSON.parse(JSON.stringify(value));
+
+/** Stands in for this site's origin while resolving a redirect target */
+const REDIRECT_BASE = "https://app.invalid";
+
+/**
+ * Only allow same-origin relative paths as post-login redirect targets. The value is resolved
+ * the way a browser would (which drops tabs and newlines and reads "\" as "/"), so anything
+ * that lands on another origin, like "//evil.com" or "/\t/evil.com", gets the fallback.
+ */
+export const getSafeRedirect = (
+  value: string | null | undefined,
+  fallback = "/docs"
+) => {
+  if (!value || !value.startsWith("/")) return fallback;
+  try {
+    const url = new URL(value, REDIRECT_BASE);
+    if (url.origin !== REDIRECT_BASE) return fallback;
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    // Not a URL at all, e.g. "//[" with its invalid host
+    return fallback;
+  }
+};
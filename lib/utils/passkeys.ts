@@ -0,0 +1,117 @@
+// /lib/utils/passkeys.ts
+// Client-side passkey ceremonies shared by AuthForm, PasskeyManager and UnifiedVerificationModal.
+import { startAuthentication, startRegistration } from "@simplewebauthn/browser";
+
+import { createPasskeySession } from "@/lib/actions/auth.actions";
+import {
+  getPasskeyLoginOptions,
+  getPasskeyRegistrationOptions,
+  verifyPasskeyLogin,
+  verifyPasskeyRegistration,
+} from "@/lib/actions/passkey.actions";
+import type { StepUpChallenge } from "@/lib/auth/risk-assessment";
+
+/**
+ * Thrown when the passkey verified but the server wants another factor before signing in.
+ * The caller should open UnifiedVerificationModal with the challenge.
+ */
+export class StepUpRequiredError extends Error {
+  constructor(public readonly challenge: StepUpChallenge) {
+    super("Additional verification required");
+    this.name = "StepUpRequiredError";
+  }
+}
+
+/**
+ * Create a passkey on this device for the signed-in user, or for a new account with the
+ * enrollment ticket from verifySignUpEmail.
+ * Resolves with the recovery codes issued with a first passkey, if any.
+ */
+export async function registerPasskey(enrollmentTicket?: string): Promise<string[] | undefined> {
+  const optsRes = await getPasskeyRegistrationOptions({ enrollmentTicket });
+  if (!optsRes.success) {
+    throw new Error(optsRes.error || "Failed to get registration options");
+  }
+
+  const { ceremonyId, options } = optsRes.data;
+  const attestation = await startRegistration({ optionsJSON: options });
+
+  const verifyRes = await verifyPasskeyRegistration({ enrollmentTicket, ceremonyId, response: attestation });
+  if (!verifyRes.success) {
+    throw new Error(verifyRes.error || "Registration verification failed");
+  }
+
+  return verifyRes.data.recoveryCodes;
+}
+
+/** Exchange a verified login ticket for a session, surfacing step-up requests */
+async function exchangeLoginTicket(loginTicket: string, stepUpTicket?: string) {
+  const sessionRes = await createPasskeySession({ loginTicket, stepUpTicket });
+
+  if (!sessionRes.success) {
+    if (sessionRes.stepUp) throw new StepUpRequiredError(sessionRes.stepUp);
+    throw new Error(sessionRes.error || "Failed to create passkey session");
+  }
+}
+
+/**
+ * Run a passkey ceremony for one known account and return the server's login ticket,
+ * without creating a session. Used directly to step up an existing session.
+ */
+export async function verifyPasskey(accountId: string): Promise<string> {
+  const optsRes = await getPasskeyLoginOptions({ accountId });
+  if (!optsRes.success) {
+    throw new Error(optsRes.error || "Failed to get login options");
+  }
+
+  const { ceremonyId, options } = optsRes.data;
+  const assertion = await startAuthentication({ optionsJSON: options });
+
+  const verifyRes = await verifyPasskeyLogin({ accountId, ceremonyId, response: assertion });
+  if (!verifyRes.success) {
+    throw new Error(verifyRes.error || "Passkey verification failed on server");
+  }
+
+  return verifyRes.data.loginTicket;
+}
+
+/**
+ * Email-first passkey sign-in: options list the credentials of one known account.
+ * Pass stepUpTicket when the passkey is the second factor of a step-up.
+ */
+export async function loginWithPasskey(accountId: string, stepUpTicket?: string): Promise<boolean> {
+  const loginTicket = await verifyPasskey(accountId);
+
+  // Exchange the login ticket for a custom passkey session (server sets app-session cookie)
+  await exchangeLoginTicket(loginTicket, stepUpTicket);
+  return true;
+}
+
+/**
+ * Usernameless sign-in: the browser lets the user pick any resident passkey for this site,
+ * and the server resolves the account from the credential it returns.
+ * With useBrowserAutofill the ceremony runs in conditional mediation and only resolves
+ * once the user picks a passkey from the email field's autofill suggestions.
+ */
+export async function loginWithDiscoverablePasskey({
+  useBrowserAutofill = false,
+}: { useBrowserAutofill?: boolean } = {}): Promise<boolean> {
+  const optsRes = await getPasskeyLoginOptions();
+  if (!optsRes.success) {
+    throw new Error(optsRes.error || "Failed to get login options");
+  }
+
+  const { ceremonyId, options } = optsRes.data;
+  const assertion = await startAuthentication({
+    optionsJSON: options,
+    useBrowserAutofill,
+  });
+
+  const verifyRes = await verifyPasskeyLogin({ ceremonyId, response: assertion });
+  if (!verifyRes.success) {
+    throw new Error(verifyRes.error || "Passkey verification failed on server");
+  }
+
+  await exchangeLoginTicket(verifyRes.data.loginTicket);
+  return true;
+}
@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+/** Cookies that can carry a session (Appwrite OTP session or custom passkey session) */
+const SESSION_COOKIES = ["appwrite-session", "app-session"];
+
+/**
+ * Cheap edge-side gate for the (protected) route group.
+ * Only checks that a session cookie is present — each protected page does the
+ * real validation through guardRoute(). The requested path is forwarded in
+ * the `x-pathname` header so the page can build the return-to URL.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const returnTo = `${pathname}${search}`;
+
+  const hasSession = SESSION_COOKIES.some(
+    (name) => !!request.cookies.get(name)?.value
+  );
+
+  if (!hasSession) {
+    const signInUrl = new URL("/sign-in", request.url);
+    signInUrl.searchParams.set("redirectTo", returnTo);
+    return NextResponse.redirect(signInUrl);
+  }
+
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set("x-pathname", returnTo);
+
+  return NextResponse.next({ request: { headers: requestHeaders } });
+}
+
+export const config = {
+  matcher: ["/docs/:path*", "/settings/:path*"],
+};
@@ -6,6 +6,8 @@ const nextConfig = {
     ignoreDuringBuilds: true,
   },
   experimental: {
+    // Validates the configuration at boot (instrumentation.ts)
+    instrumentationHook: true,
     serverActions: {
       bodySizeLimit: "100MB",
       allowedOrigins: [
@@ -0,0 +1,322 @@
+// tests/e2e/auth-flows.test.tsx
+import { beforeEach, describe, expect, it } from "vitest";
+import { cleanup, render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+
+import VerifyPage from "@/app/(auth)/verify/page";
+import AuthForm from "@/components/AuthForm";
+import { verifySecret } from "@/lib/actions/auth.actions";
+import { completeMagicLinkSignIn } from "@/lib/actions/magic-link.actions";
+import { verifyRecoveryCodeLogin } from "@/lib/actions/recovery.actions";
+import { verifyTotpLogin } from "@/lib/actions/totp.actions";
+import { issueRecoveryCodes } from "@/lib/auth/recovery-codes";
+import { encryptSecret } from "@/lib/auth/secret-box";
+import { currentTimeStep, generateHotp, generateTotpSecret } from "@/lib/auth/totp";
+import { getRepositories } from "@/lib/repositories";
+import { registerPasskey } from "@/lib/utils/passkeys";
+import { createVirtualAuthenticator, type VirtualAuthenticator } from "./support/virtual-authenticator";
+import { clearOutbox, latestCodeFor, latestLinkFor, listMailTo } from "./support/mail-sink";
+import { cookieJar, requestHeaders, router } from "./support/next-server";
+
+let authenticator: VirtualAuthenticator;
+// Rate limits outlive a test, so every test signs up its own address from its own IP
+let EMAIL: string;
+let testCount = 0;
+
+beforeEach(() => {
+  EMAIL = `ada+${++testCount}@example.com`;
+  requestHeaders.set("x-forwarded-for", `203.0.113.${testCount}`);
+  authenticator = createVirtualAuthenticator();
+  authenticator.install();
+});
+
+/** The sign-in or sign-up <form>, found by its heading */
+const panel = (heading: "Sign In" | "Sign Up") =>
+  within(screen.getByRole("heading", { level: 1, name: heading }).closest("form")!);
+
+/**
+ * Create an account through the sign-up panel, confirm the emailed code, which enrolls
+ * a passkey right away, and dismiss the recovery codes dialog
+ */
+const signUp = async (user = userEvent.setup()) => {
+  const { unmount } = render(<AuthForm type="sign-up" />);
+  const form = panel("Sign Up");
+
+  await user.type(form.getByPlaceholderText("Enter your full name"), "Ada Lovelace");
+  await user.type(form.getByPlaceholderText("Enter your email"), EMAIL);
+  await user.click(form.getByRole("button", { name: "Sign Up" }));
+
+  const dialog = within(await screen.findByRole("alertdialog"));
+  await user.type(document.querySelector<HTMLInputElement>("input[data-input-otp]")!, await latestCodeFor(EMAIL));
+  await user.click(dialog.getByRole("button", { name: "Verify OTP" }));
+
+  await user.click(await screen.findByRole("button", { name: "I've saved my codes" }));
+  await waitFor(() => expect(router.push).toHaveBeenCalledWith("/sign-in"));
+
+  unmount();
+  router.push.mockClear();
+};
+
+/** Submit the sign-in panel with the passkey method selected */
+const signInWithPasskey = async (user = userEvent.setup()) => {
+  render(<AuthForm type="sign-in" />);
+  const form = panel("Sign In");
+
+  await user.type(form.getByPlaceholderText("Enter your email"), EMAIL);
+  await user.click(form.getByRole("button", { name: "Use Passkey" }));
+  await user.click(form.getByRole("button", { name: "Sign In" }));
+};
+
+/** Ask for a sign-in link from the sign-in panel and return the URL that was mailed */
+const requestSignInLink = async (user = userEvent.setup()) => {
+  const { unmount } = render(<AuthForm type="sign-in" magicLinks />);
+  const form = panel("Sign In");
+
+  await user.type(form.getByPlaceholderText("Enter your email"), EMAIL);
+  await user.click(form.getByRole("button", { name: "Email me a sign-in link" }));
+
+  const url = await waitFor(() => latestLinkFor(EMAIL));
+  unmount();
+  return url;
+};
+
+/** Open a sign-in link the way /verify renders it */
+const openSignInLink = async (url: URL) => {
+  render(await VerifyPage({ searchParams: Object.fromEntries(url.searchParams) }));
+};
+
+describe("auth flows", () => {
+  it("signs up and enrolls a passkey verified by the server", async () => {
+    await signUp();
+
+    const { users, credentials } = getRepositories();
+    const account = await users.findByEmail(EMAIL);
+    expect(account).toMatchObject({ fullName: "Ada Lovelace", hasPasskey: true });
+    expect(account!.recoveryCodes).toHaveLength(10);
+
+    const stored = await credentials.listByAccountId(account!.accountId);
+    expect(stored.map((c) => c.credentialId)).toEqual(authenticator.credentialIds());
+    expect(stored[0].counter).toBe(0);
+  });
+
+  it("refuses to enroll a passkey without a session or a verified email", async () => {
+    await signUp();
+    const account = await getRepositories().users.findByEmail(EMAIL);
+    authenticator.wipe();
+
+    // Knowing someone's accountId must not be enough to add a passkey to their account
+    await expect(registerPasskey()).rejects.toThrow(/Sign in or verify your email/);
+    await expect(registerPasskey("forged-ticket")).rejects.toThrow(/Sign in or verify your email/);
+
+    const stored = await getRepositories().credentials.listByAccountId(account!.accountId);
+    expect(stored).toHaveLength(1);
+  });
+
+  it("signs in with the enrolled passkey", async () => {
+    await signUp();
+    await signInWithPasskey();
+
+    await waitFor(() => expect(router.push).toHaveBeenCalledWith("/docs"));
+    expect(cookieJar.get("app-session")?.value).toBeTruthy();
+
+    const { users, credentials, sessions } = getRepositories();
+    const account = await users.findByEmail(EMAIL);
+    const [credential] = await credentials.listByAccountId(account!.accountId);
+    expect(credential.counter).toBe(1);
+
+    const [session] = await sessions.listUnrevokedByAccountId(account!.accountId);
+    expect(session).toMatchObject({ authMethod: "passkey", amr: ["passkey"] });
+  });
+
+  it("blocks a passkey whose signature counter went backwards", async () => {
+    const user = userEvent.setup();
+    await signUp(user);
+    await signInWithPasskey(user);
+    await waitFor(() => expect(router.push).toHaveBeenCalledWith("/docs"));
+    cleanup();
+    router.push.mockClear();
+
+    // A clone replays the credential with a counter that doesn't move forward
+    authenticator.rewindCounters();
+    await signInWithPasskey(user);
+
+    const { users, credentials, sessions } = getRepositories();
+    const account = await users.findByEmail(EMAIL);
+    await waitFor(async () => {
+      const [credential] = await credentials.listByAccountId(account!.accountId);
+      expect(credential.cloneSuspectedAt).toBeTruthy();
+    });
+    const [credential] = await credentials.listByAccountId(account!.accountId);
+    expect(credential.counter).toBe(1);
+    expect(router.push).not.toHaveBeenCalledWith("/docs");
+    expect(await sessions.listUnrevokedByAccountId(account!.accountId)).toHaveLength(1);
+  });
+
+  it("emails no code for a passkey sign-in", async () => {
+    await signUp();
+    await clearOutbox();
+
+    await signInWithPasskey();
+
+    await waitFor(() => expect(router.push).toHaveBeenCalledWith("/docs"));
+    expect(await listMailTo(EMAIL)).toEqual([]);
+  });
+
+  it("falls back to an emailed code when the passkey is not on this device", async () => {
+    const user = userEvent.setup();
+    await signUp(user);
+    await clearOutbox();
+    authenticator.wipe();
+
+    await signInWithPasskey(user);
+
+    // The ceremony fails in the browser; the modal opens on the email code and sends it
+    const dialog = within(await screen.findByRole("alertdialog"));
+    await dialog.findByText("Enter the verification code sent to your email");
+    expect(router.push).not.toHaveBeenCalled();
+
+    const otpInput = document.querySelector<HTMLInputElement>("input[data-input-otp]")!;
+    await user.type(otpInput, await waitFor(() => latestCodeFor(EMAIL)));
+    await user.click(dialog.getByRole("button", { name: "Verify OTP" }));
+
+    await waitFor(() => expect(router.push).toHaveBeenCalledWith("/docs"));
+
+    const { users, sessions } = getRepositories();
+    const account = await users.findByEmail(EMAIL);
+    const [session] = await sessions.listUnrevokedByAccountId(account!.accountId);
+    expect(session).toMatchObject({ authMethod: "otp", amr: ["otp"] });
+    expect(cookieJar.get("appwrite-session")?.value).toBe(session.sessionId);
+  });
+
+  it("rejects a wrong emailed code", async () => {
+    const user = userEvent.setup();
+    await signUp(user);
+    await clearOutbox();
+    authenticator.wipe();
+
+    await signInWithPasskey(user);
+
+    const dialog = within(await screen.findByRole("alertdialog"));
+    const code = await waitFor(() => latestCodeFor(EMAIL));
+    const wrongCode = String((Number(code) + 1) % 1_000_000).padStart(6, "0");
+
+    await user.type(document.querySelector<HTMLInputElement>("input[data-input-otp]")!, wrongCode);
+    await user.click(dialog.getByRole("button", { name: "Verify OTP" }));
+
+    await dialog.findByText(/Invalid OTP/);
+    expect(router.push).not.toHaveBeenCalled();
+    expect(cookieJar.get("appwrite-session")).toBeUndefined();
+  });
+
+  it("lets only one of two concurrent sign-ins use the same recovery code", async () => {
+    await signUp();
+    const { users } = getRepositories();
+    const account = (await users.findByEmail(EMAIL))!;
+    const [first, second, third] = await issueRecoveryCodes(account);
+
+    const sameCode = await Promise.all([
+      verifyRecoveryCodeLogin({ accountId: account.accountId, code: first }),
+      verifyRecoveryCodeLogin({ accountId: account.accountId, code: first }),
+    ]);
+    expect(sameCode.filter((result) => result.success)).toHaveLength(1);
+
+    // Different codes at once both work, and neither write undoes the other
+    const differentCodes = await Promise.all([
+      verifyRecoveryCodeLogin({ accountId: account.accountId, code: second }),
+      verifyRecoveryCodeLogin({ accountId: account.accountId, code: third }),
+    ]);
+    expect(differentCodes.every((result) => result.success)).toBe(true);
+    expect((await users.findByEmail(EMAIL))!.recoveryCodes).toHaveLength(7);
+  });
+
+  it("refuses a parallel guess of the emailed code past the verification limit", async () => {
+    await signUp();
+    const account = (await getRepositories().users.findByEmail(EMAIL))!;
+    await getRepositories().accounts.createEmailToken(EMAIL, "code");
+
+    const guesses = Array.from({ length: 25 }, (_, i) => String(i).padStart(6, "0"));
+    const results = await Promise.all(
+      guesses.map((password) => verifySecret({ accountId: account.accountId, password }))
+    );
+
+    // At most ten tries per account (the lockout may stop them sooner), however many run at once
+    const tried = results.filter((result) => !/Too many attempts/.test(result.message ?? ""));
+    expect(tried.length).toBeGreaterThan(0);
+    expect(tried.length).toBeLessThanOrEqual(10);
+    expect((await verifySecret({ accountId: account.accountId, password: "999999" })).message).toMatch(
+      /Too many attempts/
+    );
+  });
+
+  it("lets only one of two concurrent sign-ins use the same authenticator code", async () => {
+    await signUp();
+    const { users } = getRepositories();
+    const account = (await users.findByEmail(EMAIL))!;
+    const secret = generateTotpSecret();
+    await users.update(account.$id, { totpEnabled: true, totpSecret: encryptSecret(secret) });
+
+    const code = generateHotp(secret, currentTimeStep());
+    const results = await Promise.all([
+      verifyTotpLogin({ accountId: account.accountId, code }),
+      verifyTotpLogin({ accountId: account.accountId, code }),
+    ]);
+
+    expect(results.filter((result) => result.success)).toHaveLength(1);
+    expect(results.find((result) => !result.success)).toMatchObject({ error: /already used/ });
+  });
+});
+
+describe("sign-in links", () => {
+  it("signs in straight away in the browser that asked for the link", async () => {
+    await signUp();
+    const url = await requestSignInLink();
+    expect(cookieJar.get("magic-link-binding")?.value).toBeTruthy();
+
+    await openSignInLink(url);
+
+    await waitFor(() => expect(router.push).toHaveBeenCalledWith("/docs"));
+    expect(cookieJar.get("magic-link-binding")?.value).toBe("");
+
+    const { users, sessions } = getRepositories();
+    const account = await users.findByEmail(EMAIL);
+    const [session] = await sessions.listUnrevokedByAccountId(account!.accountId);
+    expect(session).toMatchObject({ authMethod: "otp", amr: ["otp"] });
+  });
+
+  it("asks for confirmation in another browser before signing in", async () => {
+    const user = userEvent.setup();
+    await signUp(user);
+    const url = await requestSignInLink(user);
+    const accountId = url.searchParams.get("userId")!;
+
+    // Another browser has none of this one's cookies
+    cookieJar.clear();
+    await expect(
+      completeMagicLinkSignIn({
+        accountId,
+        secret: url.searchParams.get("secret")!,
+        state: url.searchParams.get("state")!,
+      })
+    ).resolves.toMatchObject({ success: false, error: /Confirm/ });
+
+    await openSignInLink(url);
+    await screen.findByText(/This link was requested from Chrome on macOS/);
+    expect(router.push).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole("button", { name: "Yes, sign me in here" }));
+
+    await waitFor(() => expect(router.push).toHaveBeenCalledWith("/docs"));
+    const [event] = await getRepositories().auditLog.listByAccountId(accountId, 1);
+    expect(event).toMatchObject({ type: "magic-link.confirmed", detail: "Requested from Chrome on macOS" });
+  });
+
+  it("leaves a pending emailed code valid when a link is sent", async () => {
+    await signUp();
+    const { accounts } = getRepositories();
+    const { accountId, secret: code } = await accounts.createEmailToken(EMAIL, "code");
+
+    await requestSignInLink();
+
+    await expect(accounts.createSession(accountId, code)).resolves.toMatchObject({ accountId });
+  });
+});
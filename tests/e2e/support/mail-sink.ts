@@ -0,0 +1,35 @@
+// tests/e2e/support/mail-sink.ts
+import { getOutbox } from "@/lib/mail";
+
+/**
+ * Reads the memory outbox (MAIL_PROVIDER=memory in the test profile) for the codes users would get
+ */
+
+export const clearOutbox = async () => {
+  await getOutbox()!.clear();
+};
+
+/**
+ * Every mail to an address, newest first
+ */
+export const listMailTo = async (email: string) => (await getOutbox()!.list()).filter((m) => m.to === email);
+
+/**
+ * The code in the newest sign-in code mail to an address
+ */
+export const latestCodeFor = async (email: string): Promise<string> => {
+  const mail = (await getOutbox()!.list()).find((m) => m.to === email && m.template === "otp-code");
+  const code = mail?.text.match(/\b\d{6}\b/)?.[0];
+  if (!code) throw new Error(`No code has been mailed to ${email}`);
+  return code;
+};
+
+/**
+ * The URL in the newest sign-in link mail to an address
+ */
+export const latestLinkFor = async (email: string): Promise<URL> => {
+  const mail = (await getOutbox()!.list()).find((m) => m.to === email && m.template === "magic-link");
+  const url = mail?.text.match(/https?:\/\/\S+/)?.[0];
+  if (!url) throw new Error(`No sign-in link has been mailed to ${email}`);
+  return new URL(url);
+};
@@ -0,0 +1,64 @@
+// tests/e2e/support/next-server.ts
+import { vi } from "vitest";
+
+/**
+ * Stand-ins for the request-scoped Next.js APIs the server actions use. Server actions run
+ * in the test process, so "the browser" and "the request" share this one cookie jar.
+ */
+
+interface StoredCookie {
+  name: string;
+  value: string;
+  options: Record<string, unknown>;
+}
+
+const jar = new Map<string, StoredCookie>();
+
+export const cookieJar = {
+  get: (name: string) => jar.get(name),
+  clear: () => jar.clear(),
+};
+
+// Synchronous like Next 14; the callers that await it work either way
+export const cookies = () => ({
+  get: (name: string) => {
+    const cookie = jar.get(name);
+    return cookie ? { name: cookie.name, value: cookie.value } : undefined;
+  },
+  getAll: () => Array.from(jar.values()).map(({ name, value }) => ({ name, value })),
+  has: (name: string) => jar.has(name),
+  set: (name: string, value: string, options: Record<string, unknown> = {}) => {
+    jar.set(name, { name, value, options });
+  },
+  delete: (name: string) => {
+    jar.delete(name);
+  },
+});
+
+// x-forwarded-for as the one trusted proxy of the default TRUSTED_PROXY_COUNT would send it
+export const requestHeaders = new Headers({
+  "user-agent":
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0 Safari/537.36",
+  "x-forwarded-for": "203.0.113.10",
+});
+
+export const headers = () => requestHeaders;
+
+export const router = {
+  push: vi.fn(),
+  replace: vi.fn(),
+  refresh: vi.fn(),
+  back: vi.fn(),
+  prefetch: vi.fn(),
+};
+
+export const navigation = {
+  useRouter: () => router,
+  usePathname: () => window.location.pathname,
+  redirect: (url: string) => {
+    throw new Error(`NEXT_REDIRECT ${url}`);
+  },
+  notFound: () => {
+    throw new Error("NEXT_NOT_FOUND");
+  },
+};
@@ -0,0 +1,48 @@
+// tests/e2e/support/setup.ts
+import { afterEach, beforeEach, vi } from "vitest";
+import { cleanup } from "@testing-library/react";
+
+vi.mock("next/headers", async () => {
+  const { cookies, headers } = await import("./next-server");
+  return { cookies, headers };
+});
+
+vi.mock("next/navigation", async () => (await import("./next-server")).navigation);
+
+// jsdom lacks the layout APIs Radix and input-otp touch. Unit tests that opt into the
+// node environment have no DOM to patch.
+if (typeof window !== "undefined") {
+  class ResizeObserver {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  }
+  globalThis.ResizeObserver ??= ResizeObserver;
+  document.elementFromPoint ??= () => null;
+  window.matchMedia ??= (query: string) =>
+    ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: () => {},
+      removeListener: () => {},
+      addEventListener: () => {},
+      removeEventListener: () => {},
+      dispatchEvent: () => false,
+    }) as MediaQueryList;
+}
+
+beforeEach(async () => {
+  const { getRepositories } = await import("@/lib/repositories");
+  const { cookieJar, router } = await import("./next-server");
+  const { clearOutbox } = await import("./mail-sink");
+
+  (getRepositories() as ReturnType<typeof getRepositories> & { reset(): void }).reset();
+  cookieJar.clear();
+  await clearOutbox();
+  Object.values(router).forEach((fn) => fn.mockClear());
+});
+
+afterEach(() => {
+  cleanup();
+});
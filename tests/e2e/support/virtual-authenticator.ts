@@ -0,0 +1,233 @@
+// tests/e2e/support/virtual-authenticator.ts
+import { createHash, generateKeyPairSync, randomBytes, sign, type KeyObject } from "node:crypto";
+
+/**
+ * A software platform authenticator behind navigator.credentials. It creates real P-256
+ * key pairs, "none" attestations and ES256 assertions, so @simplewebauthn/server verifies
+ * its responses exactly like a browser's — nothing on the server side is mocked.
+ */
+
+interface VirtualCredential {
+  id: Uint8Array;
+  rpId: string;
+  userHandle: Uint8Array;
+  privateKey: KeyObject;
+  signCount: number;
+}
+
+type CborValue = number | string | Uint8Array | Map<number | string, CborValue>;
+
+// authenticatorData flags
+const USER_PRESENT = 0x01;
+const USER_VERIFIED = 0x04;
+const ATTESTED_CREDENTIAL_DATA = 0x40;
+
+const COSE_ALG_ES256 = -7;
+
+const concat = (...parts: Uint8Array[]) => new Uint8Array(Buffer.concat(parts));
+
+const sha256 = (data: Uint8Array) => new Uint8Array(createHash("sha256").update(data).digest());
+
+const uint32 = (value: number) => {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32BE(value);
+  return new Uint8Array(bytes);
+};
+
+const uint16 = (value: number) => {
+  const bytes = Buffer.alloc(2);
+  bytes.writeUInt16BE(value);
+  return new Uint8Array(bytes);
+};
+
+const toBytes = (source: BufferSource): Uint8Array =>
+  ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+    : new Uint8Array(source).slice();
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+const base64Url = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64url");
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => Buffer.from(a).equals(Buffer.from(b));
+
+/** CBOR head: major type plus argument (lengths here never exceed 32 bits) */
+const cborHead = (major: number, argument: number): Uint8Array => {
+  if (argument < 24) return new Uint8Array([(major << 5) | argument]);
+  if (argument < 0x100) return new Uint8Array([(major << 5) | 24, argument]);
+  if (argument < 0x10000) return concat(new Uint8Array([(major << 5) | 25]), uint16(argument));
+  return concat(new Uint8Array([(major << 5) | 26]), uint32(argument));
+};
+
+/**
+ * Just enough CBOR for attestation objects and COSE keys
+ */
+const encodeCbor = (value: CborValue): Uint8Array => {
+  if (typeof value === "number") {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === "string") {
+    const bytes = new TextEncoder().encode(value);
+    return concat(cborHead(3, bytes.length), bytes);
+  }
+  if (value instanceof Uint8Array) {
+    return concat(cborHead(2, value.length), value);
+  }
+  const entries = Array.from(value.entries()).flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]);
+  return concat(cborHead(5, value.size), ...entries);
+};
+
+/** EC2 COSE_Key for an ES256 public key */
+const coseKeyFor = (privateKey: KeyObject): Uint8Array => {
+  const jwk = privateKey.export({ format: "jwk" });
+  return encodeCbor(
+    new Map<number, CborValue>([
+      [1, 2], // kty: EC2
+      [3, COSE_ALG_ES256],
+      [-1, 1], // crv: P-256
+      [-2, new Uint8Array(Buffer.from(jwk.x!, "base64url"))],
+      [-3, new Uint8Array(Buffer.from(jwk.y!, "base64url"))],
+    ])
+  );
+};
+
+const clientDataJSON = (type: "webauthn.create" | "webauthn.get", challenge: BufferSource) =>
+  new TextEncoder().encode(
+    JSON.stringify({
+      type,
+      challenge: base64Url(toBytes(challenge)),
+      origin: window.location.origin,
+      crossOrigin: false,
+    })
+  );
+
+const notAllowed = (message: string) => new DOMException(message, "NotAllowedError");
+
+export interface VirtualAuthenticator {
+  /** Credentials this authenticator holds, as the server stores their IDs */
+  credentialIds(): string[];
+  /** Forget every credential, like a lost or wiped device */
+  wipe(): void;
+  /** Reset every signature counter, like a copy of the keys taken before they were used */
+  rewindCounters(): void;
+  /** Put navigator.credentials and PublicKeyCredential in front of this authenticator */
+  install(): void;
+}
+
+export const createVirtualAuthenticator = (): VirtualAuthenticator => {
+  const credentials: VirtualCredential[] = [];
+
+  const create = async ({ publicKey }: CredentialCreationOptions) => {
+    if (!publicKey) throw new TypeError("Only publicKey credentials are supported");
+
+    const rpId = publicKey.rp.id ?? window.location.hostname;
+    const excluded = (publicKey.excludeCredentials ?? []).map((c) => toBytes(c.id));
+    if (credentials.some((c) => c.rpId === rpId && excluded.some((id) => sameBytes(id, c.id)))) {
+      throw new DOMException("The authenticator was previously registered", "InvalidStateError");
+    }
+    if (!publicKey.pubKeyCredParams.some((param) => param.alg === COSE_ALG_ES256)) {
+      throw new DOMException("No supported algorithm", "NotSupportedError");
+    }
+
+    const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const credential: VirtualCredential = {
+      id: new Uint8Array(randomBytes(32)),
+      rpId,
+      userHandle: toBytes(publicKey.user.id),
+      privateKey,
+      signCount: 0,
+    };
+    credentials.push(credential);
+
+    const authenticatorData = concat(
+      sha256(new TextEncoder().encode(rpId)),
+      new Uint8Array([USER_PRESENT | USER_VERIFIED | ATTESTED_CREDENTIAL_DATA]),
+      uint32(credential.signCount),
+      new Uint8Array(16), // AAGUID: all zeros for an unattested authenticator
+      uint16(credential.id.length),
+      credential.id,
+      coseKeyFor(credential.privateKey)
+    );
+    const attestationObject = encodeCbor(
+      new Map<string, CborValue>([
+        ["fmt", "none"],
+        ["attStmt", new Map()],
+        ["authData", authenticatorData],
+      ])
+    );
+
+    return {
+      id: base64Url(credential.id),
+      rawId: toArrayBuffer(credential.id),
+      type: "public-key",
+      authenticatorAttachment: "platform",
+      response: {
+        clientDataJSON: toArrayBuffer(clientDataJSON("webauthn.create", publicKey.challenge)),
+        attestationObject: toArrayBuffer(attestationObject),
+        getTransports: () => ["internal", "hybrid"],
+      },
+      getClientExtensionResults: () => ({}),
+    };
+  };
+
+  const get = async ({ publicKey }: CredentialRequestOptions) => {
+    if (!publicKey) throw new TypeError("Only publicKey credentials are supported");
+
+    const rpId = publicKey.rpId ?? window.location.hostname;
+    const allowed = (publicKey.allowCredentials ?? []).map((c) => toBytes(c.id));
+    // With an empty allow list any resident credential for the RP may answer
+    const credential = credentials.find(
+      (c) => c.rpId === rpId && (allowed.length === 0 || allowed.some((id) => sameBytes(id, c.id)))
+    );
+    if (!credential) throw notAllowed("No matching credential on this authenticator");
+
+    credential.signCount += 1;
+    const authenticatorData = concat(
+      sha256(new TextEncoder().encode(rpId)),
+      new Uint8Array([USER_PRESENT | USER_VERIFIED]),
+      uint32(credential.signCount)
+    );
+    const clientData = clientDataJSON("webauthn.get", publicKey.challenge);
+    const signature = sign("sha256", concat(authenticatorData, sha256(clientData)), credential.privateKey);
+
+    return {
+      id: base64Url(credential.id),
+      rawId: toArrayBuffer(credential.id),
+      type: "public-key",
+      authenticatorAttachment: "platform",
+      response: {
+        clientDataJSON: toArrayBuffer(clientData),
+        authenticatorData: toArrayBuffer(authenticatorData),
+        signature: toArrayBuffer(new Uint8Array(signature)),
+        userHandle: toArrayBuffer(credential.userHandle),
+      },
+      getClientExtensionResults: () => ({}),
+    };
+  };
+
+  return {
+    credentialIds: () => credentials.map((c) => base64Url(c.id)),
+    wipe: () => {
+      credentials.length = 0;
+    },
+    rewindCounters: () => {
+      for (const credential of credentials) credential.signCount = 0;
+    },
+    install: () => {
+      class VirtualPublicKeyCredential {
+        static isUserVerifyingPlatformAuthenticatorAvailable = async () => true;
+        // No passkey autofill: AuthForm's conditional ceremony stays out of the way
+        static isConditionalMediationAvailable = async () => false;
+      }
+      Object.defineProperty(window, "PublicKeyCredential", {
+        configurable: true,
+        value: VirtualPublicKeyCredential,
+      });
+      Object.defineProperty(navigator, "credentials", {
+        configurable: true,
+        value: { create, get },
+      });
+    },
+  };
+};
@@ -0,0 +1,28 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+/**
+ * End-to-end auth tests: AuthForm rendered in jsdom, server actions called in-process
+ * against the in-memory repositories, and a software WebAuthn authenticator. No network.
+ * Unit tests sit next to the lib/ modules they cover.
+ */
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./", import.meta.url)) },
+  },
+  esbuild: { jsx: "automatic" },
+  test: {
+    include: ["tests/**/*.test.{ts,tsx}", "lib/**/*.test.ts"],
+    environment: "jsdom",
+    environmentOptions: { jsdom: { url: "http://localhost:3000/sign-in" } },
+    setupFiles: ["tests/e2e/support/setup.ts"],
+    testTimeout: 20000,
+    // The "test" profile (lib/config.ts) supplies the rest: localhost WebAuthn, memory stores
+    env: {
+      APP_ENV: "test",
+      AUTH_MAGIC_LINKS: "true",
+      SESSION_SIGNING_KEYS: "test:e2e-session-signing-key-not-for-production",
+      SECRET_ENCRYPTION_KEY: Buffer.alloc(32, 7).toString("base64"),
+    },
+  },
+});